@@ -0,0 +1,103 @@
+// Round trips of BinaryMessageFormatV1 against fixture messages, and the raw-bytes read path through node-redis.
+// The fixtures come from FastStream only when their "producer" says so (see test/fixtures/gen_binary_message_v1.py).
+// Run: npx tsx --test test/*.test.ts (fixtures: python3 test/fixtures/gen_binary_message_v1.py)
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { AddressInfo, createServer, Socket } from "net";
+import { createClient } from "redis";
+import { BUFFER_REPLIES, encodeFSMessageV1, parseFSMessageV1 } from "../walletconnect-bridge";
+
+type Fixture = { name: string; hex: string; body: string; headers: Record<string, string> };
+const fixtures: Fixture[] = JSON.parse(readFileSync(new URL("./fixtures/binary_message_v1.json", import.meta.url), "utf8")).cases;
+
+for (const f of fixtures) {
+  test(`decodes fixture ${f.name}`, () => {
+    const decoded = parseFSMessageV1(Buffer.from(f.hex, "hex"));
+    assert.equal(decoded.format, "binary");
+    assert.equal(decoded.body, f.body);
+    assert.deepEqual(decoded.headers, f.headers);
+  });
+
+  test(`re-encodes fixture ${f.name} byte for byte`, () => {
+    const raw = Buffer.from(f.hex, "hex");
+    const { body, headers } = parseFSMessageV1(raw);
+    assert.ok(encodeFSMessageV1(body, headers).equals(raw));
+  });
+}
+
+test("fixtures cover offsets and lengths past 0x7F", () => {
+  const highByte = fixtures.some((f) => {
+    const raw = Buffer.from(f.hex, "hex");
+    return raw.subarray(8, raw.readUInt32BE(14)).some((b) => b >= 0x80);
+  });
+  assert.ok(highByte);
+});
+
+test("rejects a message whose bytes went through UTF-8 text decoding", () => {
+  const raw = Buffer.from(fixtures.find((f) => f.name === "data_start_over_0x7f")!.hex, "hex");
+  const mangled = Buffer.from(raw.toString("utf8"), "utf8");
+  assert.notEqual(parseFSMessageV1(mangled).format, "binary");
+});
+
+// Minimal RESP2 server: +OK for everything, BLPOP answers with the raw message bytes
+const fakeRedis = (payload: Buffer) =>
+  new Promise<{ url: string; close: () => void }>((resolve) => {
+    const sockets = new Set<Socket>();
+    const server = createServer((socket) => {
+      sockets.add(socket);
+      let pending = Buffer.alloc(0);
+      socket.on("data", (chunk: Buffer) => {
+        pending = Buffer.concat([pending, chunk]);
+        // Commands arrive as arrays of bulk strings: *<n>\r\n($<len>\r\n<bytes>\r\n)*
+        while (pending.length > 0) {
+          let off = pending.indexOf("\r\n");
+          if (off < 0) return;
+          const n = Number(pending.subarray(1, off).toString());
+          off += 2;
+          const args: string[] = [];
+          for (let i = 0; i < n; i++) {
+            const end = pending.indexOf("\r\n", off);
+            if (end < 0) return;
+            const len = Number(pending.subarray(off + 1, end).toString());
+            if (pending.length < end + 2 + len + 2) return;
+            args.push(pending.subarray(end + 2, end + 2 + len).toString());
+            off = end + 2 + len + 2;
+          }
+          pending = pending.subarray(off);
+          if (args[0]?.toUpperCase() === "BLPOP") {
+            const key = Buffer.from(args[1]);
+            socket.write(Buffer.concat([
+              Buffer.from(`*2\r\n$${key.length}\r\n`), key, Buffer.from(`\r\n$${payload.length}\r\n`), payload, Buffer.from("\r\n"),
+            ]));
+          } else {
+            socket.write("+OK\r\n");
+          }
+        }
+      });
+      socket.on("close", () => sockets.delete(socket));
+    });
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ url: `redis://127.0.0.1:${port}`, close: () => { for (const s of sockets) s.destroy(); server.close(); } });
+    });
+  });
+
+test("BLPOP with BUFFER_REPLIES keeps binary messages intact", async () => {
+  for (const f of fixtures) {
+    const raw = Buffer.from(f.hex, "hex");
+    const redis = await fakeRedis(raw);
+    const client = createClient({ url: redis.url, socket: { reconnectStrategy: false } });
+    client.on("error", () => {});
+    try {
+      await client.connect();
+      const reply = await client.sendCommand(["BLPOP", "wc-pairing-request", "1"], BUFFER_REPLIES) as Buffer[];
+      assert.ok(Buffer.isBuffer(reply[1]), f.name);
+      assert.ok(reply[1].equals(raw), f.name);
+      assert.equal(parseFSMessageV1(reply[1]).body, f.body, f.name);
+    } finally {
+      client.destroy();
+      redis.close();
+    }
+  }
+});
@@ -0,0 +1,33 @@
+// eip155 request extraction: chainId values that are not integers are answered with -32602, never thrown.
+// Run: npx tsx --test test/*.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { eip155Handler } from "../walletconnect-bridge";
+
+const address = "0x" + "ab".repeat(20);
+const ctx = { chain_id: "eip155:1", address };
+const sendTransaction = (chainId: unknown) => eip155Handler.extractRequest("eth_sendTransaction", [{ from: address, chainId }], ctx);
+const signTypedData = (chainId: unknown) =>
+  eip155Handler.extractRequest("eth_signTypedData_v4", [address, { types: {}, primaryType: "Mail", domain: { chainId } }], ctx);
+
+for (const chainId of ["", " ", "0x", 1.5, "abc", null, {}]) {
+  test(`rejects malformed chainId ${JSON.stringify(chainId)}`, () => {
+    for (const result of [sendTransaction(chainId), signTypedData(chainId)]) {
+      assert.equal(result.ok, false);
+      assert.equal(!result.ok && result.code, -32602);
+      assert.match(!result.ok ? result.message : "", /^Malformed .*chainId/);
+    }
+  });
+}
+
+for (const chainId of [1, "1", "0x1", " 0x01 "]) {
+  test(`accepts chainId ${JSON.stringify(chainId)} of the session chain`, () => {
+    assert.equal(sendTransaction(chainId).ok, true);
+    assert.equal(signTypedData(chainId).ok, true);
+  });
+}
+
+test("rejects a well-formed chainId of another chain as a mismatch", () => {
+  const result = sendTransaction("0x89");
+  assert.equal(!result.ok && result.message, "Transaction chainId does not match session chain");
+});
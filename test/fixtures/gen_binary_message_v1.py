@@ -0,0 +1,82 @@
+"""Regenerates binary_message_v1.json: BinaryMessageFormatV1 messages for the codec tests.
+
+Uses FastStream's own encoder when it is installed (`pip install faststream[redis]`), else an independent encoder
+written from the format as FastStream's faststream/redis/parser.py defines it. The `producer` field records which:
+only "faststream" fixtures show compatibility with FastStream itself.
+Headers are sized so that header lengths, headers_start/data_start bytes and body lengths cross 0x7F and 0xFF.
+"""
+import json
+import struct
+from pathlib import Path
+
+IDENTITY_HEADER = b"\x89BIN\r\n\x1a\n"
+
+
+def own_encode(data: bytes, headers: dict) -> bytes:
+    def string(s: str) -> bytes:
+        b = s.encode("utf-8")
+        return struct.pack(">I", len(b)) + b
+
+    header_bytes = b"".join(string(k) + string(v) for k, v in headers.items())
+    headers_start = len(IDENTITY_HEADER) + 2 + 8
+    data_start = 2 + headers_start + len(header_bytes)
+    return (
+        IDENTITY_HEADER
+        + struct.pack(">H", 1)
+        + struct.pack(">I", headers_start)
+        + struct.pack(">I", data_start)
+        + struct.pack(">H", len(headers))
+        + header_bytes
+        + data
+    )
+
+
+try:
+    from faststream.redis.parser import BinaryMessageFormatV1
+
+    def encode(data: bytes, headers: dict) -> tuple[bytes, dict]:
+        raw = BinaryMessageFormatV1.encode(
+            message=data,
+            reply_to=headers.get("reply_to"),
+            headers={k: v for k, v in headers.items() if k not in ("reply_to", "correlation_id")},
+            correlation_id=headers.get("correlation_id", ""),
+        )
+        decoded_data, decoded_headers = BinaryMessageFormatV1.parse(raw)
+        assert decoded_data == data
+        return raw, decoded_headers
+
+    PRODUCER = "faststream"
+except ImportError:
+
+    def encode(data: bytes, headers: dict) -> tuple[bytes, dict]:
+        return own_encode(data, headers), headers
+
+    PRODUCER = "gen_binary_message_v1.py own encoder (not FastStream)"
+
+
+def case(name: str, body: dict, headers: dict) -> dict:
+    data = json.dumps(body, separators=(",", ":")).encode("utf-8")
+    raw, expected_headers = encode(data, headers)
+    return {"name": name, "hex": raw.hex(), "body": data.decode("utf-8"), "headers": expected_headers}
+
+
+base = {"correlation_id": "6f1c0c1e-3a52-4f4e-9a8e-2b8f0b1d9c11", "content-type": "application/json"}
+cases = [
+    case("pairing_request_minimal", {"wc_uri": "wc:abc@2?relay-protocol=irn&symKey=00", "address": "GA" + "A" * 54}, base),
+    case("sign_reply_with_reply_to", {"result": {"signedXDR": "AAAA"}}, {**base, "reply_to": "wc-sign-replies:6f1c0c1e"}),
+    # header value of 0x80 bytes: its u32 length has a byte >= 0x80
+    case("header_len_0x80", {"result": {"ok": True}}, {**base, "x-trace": "t" * 0x80}),
+    # data_start lands between 0x80 and 0xFF
+    case("data_start_over_0x7f", {"command": "list_sessions"}, {**base, "x-pad": "p" * 90}),
+    # data_start over 0xFF, header length 0x1FF, unicode in headers and body
+    case(
+        "data_start_over_0xff_unicode",
+        {"user_info": {"name": "Пётр ✓"}, "wc_uri": "wc:" + "x" * 300},
+        {**base, "x-user": "ü" * 0xFF, "x-signature": "s" * 0xC8},
+    ),
+    case("no_headers", {"status": "ready"}, {}),
+]
+
+out = Path(__file__).with_name("binary_message_v1.json")
+out.write_text(json.dumps({"producer": PRODUCER, "cases": cases}, indent=2, ensure_ascii=False) + "\n")
+print(f"wrote {len(cases)} cases to {out} ({PRODUCER})")
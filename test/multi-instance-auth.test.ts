@@ -0,0 +1,11 @@
+// Multi-instance with inbound message authentication needs a bridge signing key: forwarded commands are re-signed.
+// Run: npx tsx --test test/*.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+test("refuses to start multi-instance with WC_AUTH_REQUIRED and no signing key", async () => {
+  // Read at import time: set before loading the module
+  Object.assign(process.env, { WC_MULTI_INSTANCE: "1", WC_AUTH_REQUIRED: "1", WC_AUTH_HMAC_SECRET: "", WC_AUTH_ED25519_SECRET: "" });
+  const { Bridge } = await import("../walletconnect-bridge");
+  await assert.rejects(new Bridge().start(), /requires WC_AUTH_ED25519_SECRET or WC_AUTH_HMAC_SECRET/);
+});
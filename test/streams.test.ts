@@ -0,0 +1,26 @@
+// Streams mode: which pending entries a consumer may claim for retry (XCLAIM min-idle).
+// Run: npx tsx --test test/*.test.ts
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hostname } from "os";
+import { pendingClaimIdle } from "../walletconnect-bridge";
+
+// Defaults: WC_STREAM_CONSUMER <hostname>-<pid>, retry base 5 s, WC_STREAM_CLAIM_IDLE_MS 120 s
+const self = `${hostname()}-${process.pid}`;
+
+test("does not claim an entry a live consumer is still handling", () => {
+  // Another replica read it 10 s ago and is still working on it: past the retry backoff, far from abandoned
+  assert.ok(10_000 >= pendingClaimIdle(self, 1));
+  assert.ok(10_000 < pendingClaimIdle("replica-b", 1));
+});
+
+test("claims another consumer's entry once it is abandoned", () => {
+  assert.equal(pendingClaimIdle("replica-b", 1), 120_000);
+  // A long retry backoff still applies on top
+  assert.equal(pendingClaimIdle("replica-b", 8), 300_000);
+});
+
+test("retries its own failed entries after the backoff", () => {
+  assert.equal(pendingClaimIdle(self, 1), 5_000);
+  assert.equal(pendingClaimIdle(self, 3), 20_000);
+});
@@ -1,45 +1,1168 @@
-// npm i -E typescript ts-node @walletconnect/core @walletconnect/web3wallet @walletconnect/types uuid redis
+// npm i -E typescript ts-node @walletconnect/core @walletconnect/web3wallet @walletconnect/types uuid redis @stellar/stellar-sdk
 // npx ts-node walletconnect-bridge.ts
 
-import { createClient, RedisClientType } from "redis";
+import { createClient, RedisClientType, RESP_TYPES } from "redis";
 import { Core } from "@walletconnect/core";
 import { WalletKit } from "@reown/walletkit";
 import type { SessionTypes, SignClientTypes } from "@walletconnect/types";
 import { v4 as uuidv4 } from "uuid";
+import { hostname } from "os";
+import { realpathSync } from "fs";
+import { fileURLToPath } from "url";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { Address, Asset, FeeBumpTransaction, hash, Keypair, MuxedAccount, Transaction, TransactionBuilder, xdr as StellarXdr } from "@stellar/stellar-sdk";
+
+// Log redaction: values of these keys (also inside JSON string payloads) are replaced by their length and hash
+const WC_LOG_REDACT = process.env.WC_LOG_REDACT !== "0";
+const WC_LOG_REDACT_FIELDS = new Set(
+  (process.env.WC_LOG_REDACT_FIELDS || "xdr,entry_xdr,entryXdr,signedXDR,signedAuthEntry,wc_uri,uri")
+    .split(",").map((f) => f.trim()).filter(Boolean)
+);
+
+const sha256Hex = (value: string | Buffer) => createHash("sha256").update(value).digest("hex");
+
+const redact = (value: unknown, depth = 0): unknown => {
+  if (depth > 8) return value;
+  if (typeof value === "string") {
+    if (!value.startsWith("{")) return value;
+    try {
+      return JSON.stringify(redact(JSON.parse(value), depth + 1));
+    } catch {
+      return value;
+    }
+  }
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  if (!value || typeof value !== "object" || Buffer.isBuffer(value)) return value;
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value)) {
+    out[k] = WC_LOG_REDACT_FIELDS.has(k) && typeof v === "string"
+      ? `<redacted len=${v.length} sha256=${sha256Hex(v).slice(0, 16)}>`
+      : redact(v, depth + 1);
+  }
+  return out;
+};
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+// Lowest level written to stdout (default debug: everything)
+const WC_LOG_LEVEL: LogLevel = (Object.keys(LOG_LEVELS) as LogLevel[]).find((l) => l === process.env.WC_LOG_LEVEL) ?? "debug";
+
+// Span active in the current async context (see Tracing below); log entries carry its ids
+const traceStore = new AsyncLocalStorage<Span>();
 
 // Simple structured logger
 const log = (
-  level: "debug" | "info" | "warn" | "error",
+  level: LogLevel,
   ctx: string,
   msg: string,
   data?: Record<string, unknown>
 ) => {
+  if (LOG_LEVELS[level] < LOG_LEVELS[WC_LOG_LEVEL]) return;
   const entry: Record<string, unknown> = {
     ts: new Date().toISOString(),
     level,
     ctx,
     msg,
   };
-  if (data !== undefined) entry.data = data;
+  const span = traceStore.getStore();
+  if (span) {
+    entry.trace_id = span.traceId;
+    entry.span_id = span.spanId;
+  }
+  if (data !== undefined) entry.data = WC_LOG_REDACT ? redact(data) : data;
   // eslint-disable-next-line no-console
   console.log(JSON.stringify(entry));
 };
 
 const WC_PROJECT_ID = process.env.WC_PROJECT_ID || "000";
 const REDIS_URL = process.env.REDIS_URL || "redis://localhost:6379";
+// Persist WalletKit/Core state and bridge bindings in Redis (set WC_PERSIST=0 for in-memory only)
+const WC_PERSIST = process.env.WC_PERSIST !== "0";
+const WC_STORAGE_PREFIX = process.env.WC_STORAGE_PREFIX || "wc-bridge";
+// How long a pairing request waits for its session proposal before the binding expires
+const WC_PROPOSAL_TIMEOUT_MS = Number(process.env.WC_PROPOSAL_TIMEOUT_MS || 120_000);
+
+// Keep-alive: session pings (0 = off), auto-extension of sessions close to expiry on activity, pairing binding TTL (0 = none)
+const WC_PING_INTERVAL_MS = Number(process.env.WC_PING_INTERVAL_MS || 0);
+const WC_PING_TIMEOUT_MS = Number(process.env.WC_PING_TIMEOUT_MS || 30_000);
+const WC_PING_MAX_FAILURES = Number(process.env.WC_PING_MAX_FAILURES || 3);
+const WC_SESSION_EXTEND_BEFORE_MS = Number(process.env.WC_SESSION_EXTEND_BEFORE_MS ?? 86_400_000);
+const WC_PAIRING_BINDING_TTL_MS = Number(process.env.WC_PAIRING_BINDING_TTL_MS || 0);
+const KEEPALIVE_TICK_MS = 60_000;
+// Enabled WalletConnect namespaces (chain handlers), comma-separated
+const WC_NAMESPACES: string[] = (process.env.WC_NAMESPACES || "stellar").split(",").map((n) => n.trim()).filter(Boolean);
+// EVM chains the bridge will approve sessions on (CAIP-2 ids or bare chain ids)
+const WC_EIP155_CHAINS: string[] = (process.env.WC_EIP155_CHAINS || "eip155:1")
+  .split(",")
+  .map((c) => c.trim())
+  .filter(Boolean)
+  .map((c) => (c.includes(":") ? c : `eip155:${c}`));
+
+// Sign reply wait: WalletConnect request expiry when the dApp sets one (capped), else the default
+const WC_SIGN_TIMEOUT_MS = Number(process.env.WC_SIGN_TIMEOUT_MS || 300_000);
+const WC_SIGN_TIMEOUT_MAX_MS = Number(process.env.WC_SIGN_TIMEOUT_MAX_MS || 900_000);
+
+// Multi-replica mode: per-instance WalletKit state, topic ownership and instance leases in Redis
+const WC_MULTI_INSTANCE = process.env.WC_MULTI_INSTANCE === "1";
+const WC_INSTANCE_ID = process.env.WC_INSTANCE_ID || "";
+const WC_LEASE_TTL_MS = Number(process.env.WC_LEASE_TTL_MS || 30_000);
+
+// dApp origin checks on proposals (Verify API result + domain lists; "*.example.com" also matches subdomains)
+const WC_VERIFY_REJECT_INVALID = process.env.WC_VERIFY_REJECT_INVALID !== "0";
+const WC_VERIFY_REQUIRE_VALID = process.env.WC_VERIFY_REQUIRE_VALID === "1";
+const parseDomainList = (raw?: string) => (raw || "").split(",").map((d) => d.trim().toLowerCase()).filter(Boolean);
+const WC_DAPP_ALLOWLIST = parseDomainList(process.env.WC_DAPP_ALLOWLIST);
+const WC_DAPP_DENYLIST = parseDomainList(process.env.WC_DAPP_DENYLIST);
+
+// Sign request rate limits: max requests per window, per session and per address (0 = off)
+const WC_RATE_LIMIT_SESSION = Number(process.env.WC_RATE_LIMIT_SESSION || 0);
+const WC_RATE_LIMIT_ADDRESS = Number(process.env.WC_RATE_LIMIT_ADDRESS || 0);
+const WC_RATE_LIMIT_WINDOW_MS = Number(process.env.WC_RATE_LIMIT_WINDOW_MS || 60_000);
+
+// Message authentication: HMAC-SHA256 shared secret and/or Ed25519 (Stellar keys) over "<timestamp>.<nonce>.<body>"
+const WC_AUTH_HMAC_SECRET = process.env.WC_AUTH_HMAC_SECRET || "";
+const WC_AUTH_ED25519_KEYS: string[] = (process.env.WC_AUTH_ED25519_KEYS || "").split(",").map((k) => k.trim()).filter(Boolean);
+const WC_AUTH_ED25519_SECRET = process.env.WC_AUTH_ED25519_SECRET || "";
+const WC_AUTH_REQUIRED = process.env.WC_AUTH_REQUIRED === "1";
+const WC_AUTH_SIGN_OUTBOUND = process.env.WC_AUTH_SIGN_OUTBOUND === "1";
+const WC_AUTH_MAX_SKEW_MS = Number(process.env.WC_AUTH_MAX_SKEW_MS || 300_000);
+
+// Audit journal: append-only stream of approvals, sign requests and outcomes (retention 0 = keep everything)
+const WC_AUDIT = process.env.WC_AUDIT !== "0";
+const WC_AUDIT_RETENTION_MS = Number(process.env.WC_AUDIT_RETENTION_MS || 0);
+const WC_AUDIT_QUERY_SCAN_MAX = Number(process.env.WC_AUDIT_QUERY_SCAN_MAX || 10_000);
+
+// Shutdown: how long in-flight sign requests may keep waiting for the broker before they are failed
+const WC_SHUTDOWN_GRACE_MS = Number(process.env.WC_SHUTDOWN_GRACE_MS || 10_000);
+
+// Redis reconnect backoff: base * 2^retries, capped
+const WC_REDIS_RECONNECT_BASE_MS = Number(process.env.WC_REDIS_RECONNECT_BASE_MS || 500);
+const WC_REDIS_RECONNECT_MAX_MS = Number(process.env.WC_REDIS_RECONNECT_MAX_MS || 30_000);
+
+// Review mode: ask the broker to approve/reject each proposal instead of auto-approving
+const WC_PROPOSAL_REVIEW = process.env.WC_PROPOSAL_REVIEW === "1";
+const WC_PROPOSAL_REVIEW_TIMEOUT_MS = Number(process.env.WC_PROPOSAL_REVIEW_TIMEOUT_MS || 60_000);
+// What to do when the broker does not answer in time: "reject" (default) or "approve"
+const WC_PROPOSAL_REVIEW_ON_TIMEOUT = process.env.WC_PROPOSAL_REVIEW_ON_TIMEOUT === "approve" ? "approve" : "reject";
+
+// Stellar networks: name -> passphrase. Extra ones via WC_STELLAR_CUSTOM_NETWORKS='{"local":"Standalone Network ; February 2017"}'
+const STELLAR_PASSPHRASES: Record<string, string> = {
+  pubnet: "Public Global Stellar Network ; September 2015",
+  testnet: "Test SDF Network ; September 2015",
+  futurenet: "Test SDF Future Network ; October 2022",
+};
+try {
+  Object.assign(STELLAR_PASSPHRASES, JSON.parse(process.env.WC_STELLAR_CUSTOM_NETWORKS || "{}"));
+} catch (e) {
+  log("error", "config", "WC_STELLAR_CUSTOM_NETWORKS.parse_error", { error: String(e) });
+}
+
+// "pubnet" | "stellar:pubnet" -> "stellar:pubnet"
+const toStellarChain = (c: string): string => (c.includes(":") ? c : `stellar:${c}`);
+
+// Chains the bridge will approve sessions on (comma-separated network names or chain ids)
+const WC_STELLAR_NETWORKS: string[] = (process.env.WC_STELLAR_NETWORKS || "pubnet")
+  .split(",")
+  .map((c) => c.trim())
+  .filter(Boolean)
+  .map(toStellarChain)
+  .filter((c) => {
+    const known = !!STELLAR_PASSPHRASES[c.split(":")[1]];
+    if (!known) log("error", "config", "WC_STELLAR_NETWORKS.unknown_network", { chain: c });
+    return known;
+  });
 
 // Каналы совместимые по смыслу с Python-версией
 const CH_PAIRING_REQUEST = "wc-pairing-request";     // { wc_uri, address, user_info? }
 const CH_PAIRING_EVENTS  = "wc-pairing-events";      // статусы pairing/session
 const CH_SIGN_REQUEST    = "wc-sign-request-queue";  // RPC-запросы на подпись
+const CH_CONTROL         = "wc-control";             // команды управления сессиями { command, ... }
+const CH_PROPOSAL_REVIEW = "wc-proposal-review-queue"; // RPC-запросы на одобрение сессий (review mode)
+
+// Embedded admin HTTP server (/healthz, /readyz, /metrics, /sessions); off unless a port is set
+const WC_ADMIN_PORT = process.env.WC_ADMIN_PORT ? Number(process.env.WC_ADMIN_PORT) : undefined;
+// Loopback by default: /sessions lists addresses and user_info without authentication
+const WC_ADMIN_HOST = process.env.WC_ADMIN_HOST || "127.0.0.1";
+
+// Broker transport: "redis" (queues below, default) or "http" (POST to WC_HTTP_ENDPOINTS, intake/callback endpoints in)
+const WC_TRANSPORT: "redis" | "http" = process.env.WC_TRANSPORT === "http" ? "http" : "redis";
+// HTTP transport: outbound URL per channel, e.g. {"wc-pairing-events":"https://broker/events","wc-sign-request-queue":"https://broker/sign"}
+let WC_HTTP_ENDPOINTS: Record<string, string> = {};
+try {
+  WC_HTTP_ENDPOINTS = JSON.parse(process.env.WC_HTTP_ENDPOINTS || "{}");
+} catch (e) {
+  log("error", "config", "WC_HTTP_ENDPOINTS.parse_error", { error: String(e) });
+}
+const WC_HTTP_PORT = Number(process.env.WC_HTTP_PORT || 8090);
+// Loopback by default: the intake takes pairing requests and control commands, expose it deliberately
+const WC_HTTP_HOST = process.env.WC_HTTP_HOST || "127.0.0.1";
+// Bearer token for POST /pairing-requests and /control; requests without it must be signed (WC_AUTH_*)
+const WC_HTTP_TOKEN = process.env.WC_HTTP_TOKEN || "";
+// Base URL the broker reaches the bridge at; without it sign replies must come back in the POST response
+const WC_HTTP_PUBLIC_URL = (process.env.WC_HTTP_PUBLIC_URL || "").replace(/\/+$/, "");
+const WC_HTTP_TIMEOUT_MS = Number(process.env.WC_HTTP_TIMEOUT_MS || 10_000);
+// Retries for failed POSTs (network errors, 429, 5xx): base * 2^attempt, capped at WC_HTTP_RETRY_MAX_MS
+const WC_HTTP_RETRIES = Number(process.env.WC_HTTP_RETRIES || 5);
+const WC_HTTP_RETRY_BASE_MS = Number(process.env.WC_HTTP_RETRY_BASE_MS || 500);
+const WC_HTTP_RETRY_MAX_MS = Number(process.env.WC_HTTP_RETRY_MAX_MS || 30_000);
+const HTTP_MAX_BODY_BYTES = 1024 * 1024;
+
+// Queue transport for bridge-owned queues: "lists" (RPUSH/BLPOP, default) or "streams" (XADD + consumer groups).
+// Reply channels (wc-sign-replies:<cid>, control reply_to) stay Lists/Pub/Sub in both modes.
+const WC_QUEUE_MODE: "lists" | "streams" = process.env.WC_QUEUE_MODE === "streams" ? "streams" : "lists";
+const WC_STREAM_GROUP = process.env.WC_STREAM_GROUP || "wc-bridge";
+const WC_STREAM_CONSUMER = process.env.WC_STREAM_CONSUMER || `${hostname()}-${process.pid}`;
+// Deliveries before an entry that keeps failing is moved to <stream>:dlq
+const WC_STREAM_MAX_DELIVERIES = Number(process.env.WC_STREAM_MAX_DELIVERIES || 5);
+// Retry backoff for pending entries: base * 2^(deliveries-1), capped at WC_STREAM_RETRY_MAX_MS
+const WC_STREAM_RETRY_BASE_MS = Number(process.env.WC_STREAM_RETRY_BASE_MS || 5_000);
+const WC_STREAM_RETRY_MAX_MS = Number(process.env.WC_STREAM_RETRY_MAX_MS || 300_000);
+// Idle time after which another consumer's pending entry counts as abandoned (its replica died); must exceed any handler run
+const WC_STREAM_CLAIM_IDLE_MS = Number(process.env.WC_STREAM_CLAIM_IDLE_MS || 120_000);
+const WC_STREAM_MAXLEN = Number(process.env.WC_STREAM_MAXLEN || 10_000);
+
+// Wire format per outbound channel: "json" envelope (default) or FastStream "binary" (BinaryMessageFormatV1).
+// Keys are list names; "reply_to" covers replies the bridge pushes to a caller's reply_to.
+// e.g. WC_CHANNEL_FORMATS='{"wc-sign-request-queue":"binary","reply_to":"binary"}'
+type WireFormat = "json" | "binary";
+let WC_CHANNEL_FORMATS: Record<string, WireFormat> = {};
+try {
+  WC_CHANNEL_FORMATS = JSON.parse(process.env.WC_CHANNEL_FORMATS || "{}");
+} catch (e) {
+  log("error", "config", "WC_CHANNEL_FORMATS.parse_error", { error: String(e) });
+}
+const WC_DEFAULT_FORMAT: WireFormat = process.env.WC_DEFAULT_FORMAT === "binary" ? "binary" : "json";
+const formatFor = (channel: string): WireFormat => WC_CHANNEL_FORMATS[channel] ?? WC_DEFAULT_FORMAT;
+
+// Ключи хранилища (Redis Hash)
+const KEY_CORE_STORAGE = `${WC_STORAGE_PREFIX}:core`;          // WalletKit/Core IKeyValueStorage
+const KEY_SESSIONS     = `${WC_STORAGE_PREFIX}:sessions`;      // topic -> SessionInfo
+const KEY_PAIRINGS     = `${WC_STORAGE_PREFIX}:pairings`;      // pairingTopic -> PairingBinding
+const KEY_AUDIT        = `${WC_STORAGE_PREFIX}:audit`;         // Stream: audit journal
+const KEY_OWNERS       = `${WC_STORAGE_PREFIX}:owners`;        // session/pairing topic -> instance id (multi-instance)
+const KEY_INSTANCES    = `${WC_STORAGE_PREFIX}:instances`;     // instance id -> { hostname, pid, started_at }
+const keyLease = (instanceId: string) => `${WC_STORAGE_PREFIX}:lease:${instanceId}`;
+// In-flight sign request -> instance id (multi-instance); expires on its own should the instance die
+const keyRequest = (requestId: string) => `${WC_STORAGE_PREFIX}:request:${requestId}`;
+const keyNonce = (nonce: string) => `${WC_STORAGE_PREFIX}:nonce:${nonce}`;
+const keyInstanceCore = (instanceId: string) => `${WC_STORAGE_PREFIX}:${instanceId}:core`;
+const controlListFor = (instanceId: string) => `${CH_CONTROL}:${instanceId}`;
+
+// Lease ops only touch the key while it still holds our token
+const LEASE_RENEW_LUA = `if redis.call("GET", KEYS[1]) == ARGV[1] then return redis.call("PEXPIRE", KEYS[1], ARGV[2]) else return 0 end`;
+// Release: KEYS = lease, instances, core; ARGV[2] = "1" also drops the (empty) slot
+const LEASE_RELEASE_LUA = `if redis.call("GET", KEYS[1]) ~= ARGV[1] then return 0 end
+redis.call("DEL", KEYS[1])
+if ARGV[2] == "1" then
+  redis.call("HDEL", KEYS[2], ARGV[3])
+  redis.call("DEL", KEYS[3])
+end
+return 1`;
+
+// address: primary account (stellar if bound, else the first namespace); addresses: namespace -> account
+type SessionInfo = {
+  address: string;
+  addresses?: Record<string, string>;
+  user_info?: Record<string, unknown>;
+  dapp?: { name?: string; url?: string };
+  chains?: string[];
+  accounts?: Record<string, string[]>;   // chain id -> approved addresses, first is the default signer
+  verify?: VerifyInfo;
+};
+// Verify API result as forwarded to the broker; origin is what the Verify server attested
+type VerifyInfo = { origin?: string; validation?: string; is_scam?: boolean };
+// networks: chain ids this binding may be exposed on (per namespace; namespaces not listed are unrestricted)
+type PairingBinding = {
+  address: string;
+  addresses?: Record<string, string>;
+  user_info?: Record<string, unknown>;
+  networks?: string[];
+  accounts?: AccountMap;
+  bound_at?: number;          // ms epoch of the last approval over this pairing (binding TTL)
+};
+// Accounts bound to a pairing: namespace ("stellar") or chain id ("stellar:testnet") -> addresses, first is primary
+type AccountMap = Record<string, string[]>;
+// Pairing request waiting for its session proposal (keyed by pairing topic from wc_uri)
+type PendingBinding = PairingBinding & { correlation_id: string; timer: NodeJS.Timeout; trace?: SpanContext };
+
+// Signing policy applied to decoded XDR; resolved per dApp host, falling back to "default"
+type SignPolicy = {
+  allowed_ops?: string[];     // whitelist of operation types (e.g. "payment", "changeTrust")
+  forbidden_ops?: string[];   // blacklist (e.g. "setOptions", "accountMerge")
+  max_fee?: string;           // max total fee in stroops
+  require_source?: boolean;   // tx source must be the session address (default true)
+};
+let WC_SIGN_POLICY: { default?: SignPolicy; dapps?: Record<string, SignPolicy> } = {};
+try {
+  WC_SIGN_POLICY = JSON.parse(process.env.WC_SIGN_POLICY || "{}");
+} catch (e) {
+  log("error", "config", "WC_SIGN_POLICY.parse_error", { error: String(e) });
+}
+
+const resolveSignPolicy = (dappUrl?: string): SignPolicy => {
+  let host: string | undefined;
+  try {
+    host = dappUrl ? new URL(dappUrl).hostname : undefined;
+  } catch {}
+  return (host && WC_SIGN_POLICY.dapps?.[host]) || WC_SIGN_POLICY.default || {};
+};
+
+const summarizeVerify = (verifyContext: any): VerifyInfo => ({
+  origin: verifyContext?.verified?.origin,
+  validation: verifyContext?.verified?.validation,
+  is_scam: verifyContext?.verified?.isScam,
+});
+
+const hostOf = (url?: string): string | undefined => {
+  try {
+    return url ? new URL(url).hostname.toLowerCase() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const domainMatches = (host: string, pattern: string) =>
+  pattern.startsWith("*.") ? host === pattern.slice(2) || host.endsWith(pattern.slice(1)) : host === pattern;
+
+// Reason to reject a proposal, or undefined. Lists apply to the verified origin, falling back to the metadata url.
+const checkDappOrigin = (verify: VerifyInfo, metadataUrl?: string): string | undefined => {
+  if (verify.is_scam) return "dApp flagged as scam by Verify API";
+  if (WC_VERIFY_REJECT_INVALID && verify.validation === "INVALID") return "dApp origin failed verification";
+  if (WC_VERIFY_REQUIRE_VALID && verify.validation !== "VALID") return `dApp origin not verified (${verify.validation ?? "none"})`;
+  const host = hostOf(verify.origin) ?? hostOf(metadataUrl);
+  if (WC_DAPP_DENYLIST.length > 0 && host && WC_DAPP_DENYLIST.some((d) => domainMatches(host, d))) return `dApp domain ${host} is denied`;
+  if (WC_DAPP_ALLOWLIST.length > 0 && !(host && WC_DAPP_ALLOWLIST.some((d) => domainMatches(host, d)))) {
+    return `dApp domain ${host ?? "unknown"} is not allowed`;
+  }
+  return undefined;
+};
+
+// Operation fields forwarded in the summary; Assets become "CODE:ISSUER" / "native"
+const summarizeOperation = (op: any): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(op)) {
+    if (v instanceof Asset) out[k] = v.isNative() ? "native" : `${v.getCode()}:${v.getIssuer()}`;
+    else if (Array.isArray(v) && v.every((a) => a instanceof Asset)) out[k] = v.map((a: Asset) => (a.isNative() ? "native" : `${a.getCode()}:${a.getIssuer()}`));
+    else if (v === null || ["string", "number", "boolean"].includes(typeof v)) out[k] = v;
+  }
+  return out;
+};
+
+// M... -> G...; G... unchanged
+const baseAccountId = (account: string): string =>
+  account.startsWith("M") ? MuxedAccount.fromAddress(account, "0").baseAccount().accountId() : account;
+
+// Decode the envelope and apply sanity checks + signing policy before anything reaches the broker
+const validateStellarXdr = (
+  xdr: string,
+  ctx: { network_passphrase: string; requested_passphrase?: string; address: string; policy: SignPolicy }
+): { ok: true; summary: Record<string, unknown> } | { ok: false; code: number; message: string } => {
+  if (ctx.requested_passphrase && ctx.requested_passphrase !== ctx.network_passphrase) {
+    return { ok: false, code: -32602, message: "Network passphrase does not match session chain" };
+  }
+
+  let tx: Transaction | FeeBumpTransaction;
+  try {
+    tx = TransactionBuilder.fromXDR(xdr, ctx.network_passphrase);
+  } catch (e) {
+    return { ok: false, code: -32602, message: `Malformed XDR: ${String(e)}` };
+  }
+  const inner = tx instanceof FeeBumpTransaction ? tx.innerTransaction : tx;
+
+  if (ctx.policy.require_source !== false && baseAccountId(inner.source) !== ctx.address) {
+    return { ok: false, code: -32602, message: "Transaction source does not match session address" };
+  }
+
+  const operations = inner.operations.map(summarizeOperation);
+  for (const op of operations) {
+    const type = String(op.type);
+    if (ctx.policy.allowed_ops && !ctx.policy.allowed_ops.includes(type)) {
+      return { ok: false, code: 4100, message: `Operation not allowed by policy: ${type}` };
+    }
+    if (ctx.policy.forbidden_ops?.includes(type)) {
+      return { ok: false, code: 4100, message: `Operation forbidden by policy: ${type}` };
+    }
+  }
+
+  if (ctx.policy.max_fee !== undefined && BigInt(tx.fee) > BigInt(ctx.policy.max_fee)) {
+    return { ok: false, code: 4100, message: `Fee ${tx.fee} exceeds policy max ${ctx.policy.max_fee}` };
+  }
+
+  const summary: Record<string, unknown> = {
+    hash: tx.hash().toString("hex"),
+    source: inner.source,
+    fee: tx.fee,
+    sequence: inner.sequence,
+    memo: inner.memo.value === null ? undefined : { type: inner.memo.type, value: String(inner.memo.value) },
+    time_bounds: inner.timeBounds,
+    operations,
+  };
+  if (tx instanceof FeeBumpTransaction) {
+    summary.fee_bump = { fee_source: tx.feeSource, fee: tx.fee, inner_fee: inner.fee };
+  }
+  return { ok: true, summary };
+};
+
+// Soroban authorization: accepts a HashIdPreimage (envelopeTypeSorobanAuthorization, as Freighter signs it)
+// or a full SorobanAuthorizationEntry with address credentials
+const validateStellarAuthEntry = (
+  entryXdr: string,
+  ctx: { network_passphrase: string; address: string }
+): { ok: true; summary: Record<string, unknown> } | { ok: false; code: number; message: string } => {
+  const describeInvocation = (inv: StellarXdr.SorobanAuthorizedInvocation): Record<string, unknown> => {
+    const fn = inv.function();
+    if (fn.switch() !== StellarXdr.SorobanAuthorizedFunctionType.sorobanAuthorizedFunctionTypeContractFn()) {
+      return { type: fn.switch().name, sub_invocations: inv.subInvocations().length };
+    }
+    const args = fn.contractFn();
+    return {
+      type: "contract_fn",
+      contract: Address.fromScAddress(args.contractAddress()).toString(),
+      function: args.functionName().toString(),
+      sub_invocations: inv.subInvocations().length,
+    };
+  };
+
+  try {
+    const preimage = StellarXdr.HashIdPreimage.fromXDR(entryXdr, "base64");
+    if (preimage.switch() === StellarXdr.EnvelopeType.envelopeTypeSorobanAuthorization()) {
+      const auth = preimage.sorobanAuthorization();
+      if (!auth.networkId().equals(hash(Buffer.from(ctx.network_passphrase)))) {
+        return { ok: false, code: -32602, message: "Auth entry network does not match session chain" };
+      }
+      return {
+        ok: true,
+        summary: {
+          entry_type: "preimage",
+          nonce: auth.nonce().toString(),
+          signature_expiration_ledger: auth.signatureExpirationLedger(),
+          invocation: describeInvocation(auth.invocation()),
+        },
+      };
+    }
+  } catch {}
+
+  try {
+    const entry = StellarXdr.SorobanAuthorizationEntry.fromXDR(entryXdr, "base64");
+    const creds = entry.credentials();
+    if (creds.switch() !== StellarXdr.SorobanCredentialsType.sorobanCredentialsAddress()) {
+      return { ok: false, code: -32602, message: "Auth entry has no address credentials" };
+    }
+    const addrCreds = creds.address();
+    const signer = Address.fromScAddress(addrCreds.address()).toString();
+    if (signer !== ctx.address) {
+      return { ok: false, code: -32602, message: "Auth entry signer does not match session address" };
+    }
+    return {
+      ok: true,
+      summary: {
+        entry_type: "entry",
+        signer,
+        nonce: addrCreds.nonce().toString(),
+        signature_expiration_ledger: addrCreds.signatureExpirationLedger(),
+        invocation: describeInvocation(entry.rootInvocation()),
+      },
+    };
+  } catch (e) {
+    return { ok: false, code: -32602, message: `Malformed auth entry XDR: ${String(e)}` };
+  }
+};
+
+// Per-method parameter extraction; fields returned in `payload` are merged into the broker request
+const STELLAR_DEFAULT_METHODS = ["stellar_signXDR", "stellar_signAndSubmitXDR"];
+const STELLAR_MESSAGE_MAX_BYTES = Number(process.env.STELLAR_MESSAGE_MAX_BYTES || 8192);
+
+const extractStellarRequest = (
+  method: string,
+  p: any,
+  ctx: { network_passphrase: string; address: string; policy: SignPolicy }
+): { ok: true; payload: Record<string, unknown> } | { ok: false; code: number; message: string } => {
+  // Params may be an object or a single-element array
+  const args = Array.isArray(p) ? p[0] : p;
+  switch (method) {
+    case "stellar_signXDR":
+    case "stellar_signAndSubmitXDR": {
+      const xdr = args?.xdr;
+      if (typeof xdr !== "string" || !xdr) return { ok: false, code: 4000, message: "Bad params" };
+      const checked = validateStellarXdr(xdr, {
+        network_passphrase: ctx.network_passphrase,
+        requested_passphrase: args?.networkPassphrase ?? args?.network_passphrase,
+        address: ctx.address,
+        policy: ctx.policy,
+      });
+      if (!checked.ok) return checked;
+      return { ok: true, payload: { kind: "transaction", xdr, tx_summary: checked.summary } };
+    }
+    case "stellar_signMessage": {
+      const message = args?.message;
+      if (typeof message !== "string" || !message) return { ok: false, code: 4000, message: "Bad params" };
+      if (Buffer.byteLength(message, "utf8") > STELLAR_MESSAGE_MAX_BYTES) {
+        return { ok: false, code: -32602, message: `Message exceeds ${STELLAR_MESSAGE_MAX_BYTES} bytes` };
+      }
+      return { ok: true, payload: { kind: "message", message } };
+    }
+    case "stellar_signAuthEntry": {
+      const entryXdr = args?.entryXdr ?? args?.entry_xdr ?? args?.xdr;
+      if (typeof entryXdr !== "string" || !entryXdr) return { ok: false, code: 4000, message: "Bad params" };
+      const checked = validateStellarAuthEntry(entryXdr, ctx);
+      if (!checked.ok) return checked;
+      return { ok: true, payload: { kind: "auth_entry", entry_xdr: entryXdr, auth_entry_summary: checked.summary } };
+    }
+    default:
+      return { ok: false, code: -32601, message: `Unsupported method: ${method}` };
+  }
+};
+
+// Chain handler: everything namespace-specific the proposal/request flows need
+type ChainRequestResult = { ok: true; payload: Record<string, unknown> } | { ok: false; code: number; message: string };
+type ChainHandler = {
+  namespace: string;
+  allowedChains: () => string[];
+  normalizeChain: (chain: string) => string;
+  isValidAddress: (address: string) => boolean;
+  formatAccount: (chain: string, address: string) => string;
+  defaultMethods: string[];
+  defaultEvents: string[];
+  supportedMethods: string[];
+  extractRequest: (method: string, params: any, ctx: { chain_id: string; address: string; dapp_url?: string }) => ChainRequestResult;
+  // Account the dApp wants to sign with, when the params name one
+  requestAccount: (method: string, params: any, ctx: { chain_id: string; dapp_url?: string }) => string | undefined;
+  shapeResult: (method: string, result: any) => unknown;
+};
+
+const stellarHandler: ChainHandler = {
+  namespace: "stellar",
+  allowedChains: () => WC_STELLAR_NETWORKS,
+  normalizeChain: toStellarChain,
+  isValidAddress: (address) => /^[GM][A-Z2-7]{55,68}$/.test(address),
+  formatAccount: (chain, address) => `${chain}:${address}`,
+  defaultMethods: STELLAR_DEFAULT_METHODS,
+  defaultEvents: ["accountsChanged"],
+  supportedMethods: [...STELLAR_DEFAULT_METHODS, "stellar_signMessage", "stellar_signAuthEntry"],
+  extractRequest: (method, params, ctx) => {
+    const network_passphrase = STELLAR_PASSPHRASES[ctx.chain_id.split(":")[1]];
+    if (!network_passphrase) return { ok: false, code: 4000, message: `Unsupported chain ${ctx.chain_id}` };
+    const extracted = extractStellarRequest(method, params, {
+      network_passphrase,
+      address: ctx.address,
+      policy: resolveSignPolicy(ctx.dapp_url),
+    });
+    if (!extracted.ok) return extracted;
+    return { ok: true, payload: { ...extracted.payload, network_passphrase } };
+  },
+  // Explicit address field, else the auth entry signer, else the transaction source when the policy requires it to be
+  // the signer; with require_source: false the session's default account signs and validateStellarXdr applies the policy
+  requestAccount: (method, params, ctx) => {
+    const args = Array.isArray(params) ? params[0] : params;
+    const explicit = args?.address ?? args?.account ?? args?.publicKey;
+    if (typeof explicit === "string" && explicit) return explicit;
+    try {
+      if ((method === "stellar_signXDR" || method === "stellar_signAndSubmitXDR") && typeof args?.xdr === "string") {
+        if (resolveSignPolicy(ctx.dapp_url).require_source === false) return undefined;
+        const tx = TransactionBuilder.fromXDR(args.xdr, STELLAR_PASSPHRASES[ctx.chain_id.split(":")[1]] ?? "");
+        return baseAccountId(tx instanceof FeeBumpTransaction ? tx.innerTransaction.source : tx.source);
+      }
+      if (method === "stellar_signAuthEntry") {
+        const entry = StellarXdr.SorobanAuthorizationEntry.fromXDR(args?.entryXdr ?? args?.entry_xdr ?? args?.xdr, "base64");
+        return Address.fromScAddress(entry.credentials().address().address()).toString();
+      }
+    } catch {}
+    return undefined;
+  },
+  // Broker result objects are passed to Stellar dApps as-is
+  shapeResult: (_method, result) => result || {},
+};
+
+const EVM_ADDRESS_RE = /^0x[0-9a-fA-F]{40}$/;
+const sameEvmAddress = (a: unknown, b: string) => typeof a === "string" && a.toLowerCase() === b.toLowerCase();
+// Chain id (integer, decimal or 0x-hex string) as a decimal string; undefined for anything else.
+// Checked before BigInt, which reads "" and " " as 0 and throws on fractions.
+const evmChainRef = (v: unknown): string | undefined => {
+  if (typeof v === "number") return Number.isSafeInteger(v) ? String(v) : undefined;
+  if (typeof v === "bigint") return String(v);
+  if (typeof v !== "string" || !/^\s*(0x[0-9a-fA-F]+|[0-9]+)\s*$/.test(v)) return undefined;
+  return String(BigInt(v.trim()));
+};
+
+const eip155Handler: ChainHandler = {
+  namespace: "eip155",
+  allowedChains: () => WC_EIP155_CHAINS,
+  normalizeChain: (c) => (c.includes(":") ? c : `eip155:${c}`),
+  isValidAddress: (address) => EVM_ADDRESS_RE.test(address),
+  formatAccount: (chain, address) => `${chain}:${address}`,
+  defaultMethods: ["personal_sign", "eth_signTypedData_v4", "eth_sendTransaction"],
+  defaultEvents: ["accountsChanged", "chainChanged"],
+  supportedMethods: ["personal_sign", "eth_signTypedData_v4", "eth_sendTransaction"],
+  extractRequest: (method, params, ctx) => {
+    const p: any[] = Array.isArray(params) ? params : [];
+    const chainRef = ctx.chain_id.split(":")[1];
+    switch (method) {
+      case "personal_sign": {
+        // [message (hex or utf8), address]
+        const [message, from] = p;
+        if (typeof message !== "string" || !sameEvmAddress(from, ctx.address)) {
+          return { ok: false, code: 4000, message: "Bad params" };
+        }
+        return { ok: true, payload: { kind: "personal_message", message } };
+      }
+      case "eth_signTypedData_v4": {
+        // [address, typedData (JSON string or object)]
+        const [from, raw] = p;
+        if (!sameEvmAddress(from, ctx.address)) return { ok: false, code: 4000, message: "Bad params" };
+        let typed_data: any;
+        try {
+          typed_data = typeof raw === "string" ? JSON.parse(raw) : raw;
+        } catch (e) {
+          return { ok: false, code: -32602, message: `Malformed typed data: ${String(e)}` };
+        }
+        if (!typed_data?.types || !typed_data?.primaryType) {
+          return { ok: false, code: -32602, message: "Malformed typed data" };
+        }
+        const domainChain = typed_data.domain?.chainId;
+        if (domainChain !== undefined) {
+          const ref = evmChainRef(domainChain);
+          if (ref === undefined) return { ok: false, code: -32602, message: `Malformed typed data chainId: ${String(domainChain)}` };
+          if (ref !== chainRef) return { ok: false, code: -32602, message: "Typed data chainId does not match session chain" };
+        }
+        return { ok: true, payload: { kind: "typed_data", typed_data } };
+      }
+      case "eth_sendTransaction": {
+        // [{ from, to?, value?, data?, gas?, ... }]
+        const [transaction] = p;
+        if (!transaction || !sameEvmAddress(transaction.from, ctx.address)) {
+          return { ok: false, code: 4000, message: "Bad params" };
+        }
+        if (transaction.chainId !== undefined) {
+          const ref = evmChainRef(transaction.chainId);
+          if (ref === undefined) return { ok: false, code: -32602, message: `Malformed transaction chainId: ${String(transaction.chainId)}` };
+          if (ref !== chainRef) return { ok: false, code: -32602, message: "Transaction chainId does not match session chain" };
+        }
+        return { ok: true, payload: { kind: "evm_transaction", transaction } };
+      }
+      default:
+        return { ok: false, code: -32601, message: `Unsupported method: ${method}` };
+    }
+  },
+  requestAccount: (method, params) => {
+    const p: any[] = Array.isArray(params) ? params : [];
+    const from = method === "personal_sign" ? p[1] : method === "eth_signTypedData_v4" ? p[0] : p[0]?.from;
+    return typeof from === "string" ? from : undefined;
+  },
+  // EVM dApps expect a bare hex string (signature or tx hash)
+  shapeResult: (_method, result) => {
+    if (typeof result === "string") return result;
+    return result?.signature ?? result?.hash ?? result?.tx_hash ?? result;
+  },
+};
+
+const CHAIN_HANDLERS: Record<string, ChainHandler> = Object.fromEntries(
+  [stellarHandler, eip155Handler]
+    .filter((h) => WC_NAMESPACES.includes(h.namespace))
+    .map((h) => [h.namespace, h])
+);
+
+// Bare names ("testnet") predate multi-namespace support and mean Stellar networks
+const toChainId = (c: string): string => (c.includes(":") ? c : toStellarChain(c));
+
+// Primary address kept in events/listing for backward compatibility: stellar first, else any bound namespace
+const primaryAddress = (addresses: Record<string, string>): string | undefined =>
+  addresses.stellar ?? Object.values(addresses)[0];
+
+// Pairing request / control forms: address "G..." or ["G...", ...]; addresses { "<namespace|chain>": "addr" | ["addr", ...] }
+const parseAccountMap = (address: unknown, addresses: unknown): AccountMap => {
+  const out: AccountMap = {};
+  const add = (key: string, value: unknown) => {
+    const list = (Array.isArray(value) ? value : [value]).filter((v) => typeof v === "string" && v) as string[];
+    if (list.length === 0) return;
+    const ns = key.split(":")[0];
+    const k = key.includes(":") && CHAIN_HANDLERS[ns] ? CHAIN_HANDLERS[ns].normalizeChain(key) : key;
+    out[k] = Array.from(new Set([...(out[k] || []), ...list]));
+  };
+  if (address) add("stellar", address);
+  if (addresses && typeof addresses === "object") {
+    for (const [k, v] of Object.entries(addresses)) add(k, v);
+  }
+  return out;
+};
+
+// Addresses usable on a chain: chain-specific entries first, then the namespace-wide ones
+const accountsForChain = (accounts: AccountMap, chain: string): string[] =>
+  Array.from(new Set([...(accounts[chain] || []), ...(accounts[chain.split(":")[0]] || [])]));
 
-// Очередь адресов для auto-approve (FIFO) — если нужно параллелить, сделай мапу по correlation
-const addressQueue: Array<{address: string; user_info?: Record<string, unknown>}> = [];
+// First address per namespace, the shape events and older records use
+const primaryAddresses = (accounts: AccountMap): Record<string, string> => {
+  const out: Record<string, string> = {};
+  for (const [k, list] of Object.entries(accounts)) out[k.split(":")[0]] ??= list[0];
+  return out;
+};
+
+// Chain id -> addresses from CAIP-10 accounts ("<namespace>:<reference>:<address>")
+const accountsByChain = (caip10: string[]): Record<string, string[]> => {
+  const out: Record<string, string[]> = {};
+  for (const a of caip10) {
+    const [ns, ref, addr] = a.split(":");
+    (out[`${ns}:${ref}`] ??= []).push(addr);
+  }
+  return out;
+};
+
+const sameAccount = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// "wc:<topic>@2?relay-protocol=irn&symKey=..." -> "<topic>"
+const parsePairingTopic = (uri: string): string | undefined => {
+  const m = /^wc:([0-9a-fA-F]+)@\d+/.exec(uri.trim());
+  return m ? m[1] : undefined;
+};
+
+// FastStream BinaryMessageFormatV1 codec
+// Layout (big endian): magic "\x89BIN\r\n\x1a\n" (8) | u16 version | u32 headers_start | u32 data_start
+//   @headers_start: u16 header_count, then count x (u32 key_len, key, u32 value_len, value)
+//   @data_start: body bytes until end of message
+const FS_MAGIC = Buffer.from([0x89, 0x42, 0x49, 0x4e, 0x0d, 0x0a, 0x1a, 0x0a]);
+const FS_VERSION = 1;
+const FS_PREAMBLE_LEN = FS_MAGIC.length + 2 + 4 + 4;
+
+type DecodedMessage = { body: string; headers: Record<string, string>; format: "binary" | "json" | "raw" };
+
+const encodeFSMessageV1 = (body: string | Buffer, headers: Record<string, string>): Buffer => {
+  const parts: Buffer[] = [];
+  const count = Buffer.alloc(2);
+  const entries = Object.entries(headers).filter(([, v]) => v !== undefined && v !== null);
+  count.writeUInt16BE(entries.length);
+  parts.push(count);
+  for (const [k, v] of entries) {
+    for (const str of [k, String(v)]) {
+      const bytes = Buffer.from(str, "utf8");
+      const len = Buffer.alloc(4);
+      len.writeUInt32BE(bytes.length);
+      parts.push(len, bytes);
+    }
+  }
+  const headerBlock = Buffer.concat(parts);
+  const preamble = Buffer.alloc(FS_PREAMBLE_LEN);
+  FS_MAGIC.copy(preamble, 0);
+  preamble.writeUInt16BE(FS_VERSION, FS_MAGIC.length);
+  preamble.writeUInt32BE(FS_PREAMBLE_LEN, FS_MAGIC.length + 2);
+  preamble.writeUInt32BE(FS_PREAMBLE_LEN + headerBlock.length, FS_MAGIC.length + 6);
+  return Buffer.concat([preamble, headerBlock, Buffer.isBuffer(body) ? body : Buffer.from(body, "utf8")]);
+};
+
+// Returns undefined when the buffer is not BinaryMessageFormatV1; throws when it is but is malformed.
+const decodeFSBinaryV1 = (m: Buffer): { body: Buffer; headers: Record<string, string> } | undefined => {
+  if (m.length < FS_MAGIC.length || !m.subarray(0, FS_MAGIC.length).equals(FS_MAGIC)) return undefined;
+  if (m.length < FS_PREAMBLE_LEN + 2) throw new Error(`BinaryMessageFormatV1: truncated preamble (${m.length} bytes)`);
+  const version = m.readUInt16BE(FS_MAGIC.length);
+  if (version !== FS_VERSION) throw new Error(`BinaryMessageFormatV1: unsupported version ${version}`);
+  const headersStart = m.readUInt32BE(FS_MAGIC.length + 2);
+  const dataStart = m.readUInt32BE(FS_MAGIC.length + 6);
+  if (headersStart < FS_PREAMBLE_LEN || headersStart + 2 > m.length || dataStart < headersStart + 2 || dataStart > m.length) {
+    throw new Error(`BinaryMessageFormatV1: offsets out of range (headers_start=${headersStart}, data_start=${dataStart}, len=${m.length})`);
+  }
+  const count = m.readUInt16BE(headersStart);
+  let off = headersStart + 2;
+  const readString = (): string => {
+    if (off + 4 > dataStart) throw new Error("BinaryMessageFormatV1: header length past data_start");
+    const len = m.readUInt32BE(off);
+    off += 4;
+    if (off + len > dataStart) throw new Error("BinaryMessageFormatV1: header value past data_start");
+    const str = m.subarray(off, off + len).toString("utf8");
+    off += len;
+    return str;
+  };
+  const headers: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    const key = readString();
+    headers[key] = readString();
+  }
+  if (off !== dataStart) throw new Error(`BinaryMessageFormatV1: ${dataStart - off} unexpected bytes before data`);
+  return { body: m.subarray(dataStart), headers };
+};
+
+// Inbound decode for every channel: BinaryMessageFormatV1, then JSON envelope { data, headers }, then raw body
+const parseFSMessageV1 = (buf: Buffer | string): DecodedMessage => {
+  const b = Buffer.isBuffer(buf) ? buf : Buffer.from(buf as string);
+  const bin = decodeFSBinaryV1(b);
+  if (bin) {
+    log("debug", "parseFSMessageV1", "binary.detected", { len: b.length, headers: bin.headers });
+    return { body: bin.body.toString("utf8"), headers: bin.headers, format: "binary" };
+  }
+  try {
+    const env = JSON.parse(b.toString("utf8"));
+    if (env && typeof env.data === "string") {
+      const headers: Record<string, string> = {};
+      for (const [k, v] of Object.entries(env.headers || {})) headers[k] = String(v);
+      return { body: env.data, headers, format: "json" };
+    }
+  } catch (e) {
+    log("debug", "parseFSMessageV1", "json_fallback_failed", { error: String(e) });
+  }
+  return { body: b.toString("utf8"), headers: {}, format: "raw" };
+};
+
+// Bridge signing key: the Ed25519 seed if set, else the HMAC secret. Its own public key is always accepted inbound.
+const AUTH_SIGNER = WC_AUTH_ED25519_SECRET ? Keypair.fromSecret(WC_AUTH_ED25519_SECRET) : undefined;
+const AUTH_ACCEPTED_KEYS = new Set([...WC_AUTH_ED25519_KEYS, ...(AUTH_SIGNER ? [AUTH_SIGNER.publicKey()] : [])]);
+
+const authData = (timestamp: string, nonce: string, body: string) => Buffer.from(`${timestamp}.${nonce}.${body}`, "utf8");
+const hmacOf = (data: Buffer) => createHmac("sha256", WC_AUTH_HMAC_SECRET).update(data).digest();
+
+const signatureHeaders = (body: string): Record<string, string> => {
+  const timestamp = String(Date.now());
+  const nonce = uuidv4();
+  const data = authData(timestamp, nonce, body);
+  if (AUTH_SIGNER) {
+    return {
+      "x-signature-alg": "ed25519",
+      "x-key-id": AUTH_SIGNER.publicKey(),
+      "x-signature": AUTH_SIGNER.sign(data).toString("base64"),
+      "x-timestamp": timestamp,
+      "x-nonce": nonce,
+    };
+  }
+  if (WC_AUTH_HMAC_SECRET) {
+    return { "x-signature-alg": "hmac-sha256", "x-signature": hmacOf(data).toString("base64"), "x-timestamp": timestamp, "x-nonce": nonce };
+  }
+  return {};
+};
+
+// Signature and timestamp checks; returns the rejection reason. Nonce reuse is checked by the caller against Redis.
+const verifySignature = (body: string, headers: Record<string, string>): string | undefined => {
+  const signature = headers["x-signature"];
+  const timestamp = headers["x-timestamp"];
+  const nonce = headers["x-nonce"];
+  if (!signature || !timestamp || !nonce) return "incomplete signature headers";
+  const skew = Math.abs(Date.now() - Number(timestamp));
+  if (!(skew <= WC_AUTH_MAX_SKEW_MS)) return `timestamp outside allowed skew (${timestamp})`;
+  const data = authData(timestamp, nonce, body);
+  const sig = Buffer.from(signature, "base64");
+  const alg = headers["x-signature-alg"] || "hmac-sha256";
+  if (alg === "hmac-sha256") {
+    if (!WC_AUTH_HMAC_SECRET) return "hmac-sha256 not configured";
+    const expected = hmacOf(data);
+    return sig.length === expected.length && timingSafeEqual(sig, expected) ? undefined : "bad signature";
+  }
+  if (alg === "ed25519") {
+    const keyId = headers["x-key-id"];
+    const candidates = keyId ? (AUTH_ACCEPTED_KEYS.has(keyId) ? [keyId] : []) : Array.from(AUTH_ACCEPTED_KEYS);
+    if (candidates.length === 0) return `unknown key ${keyId ?? ""}`.trim();
+    for (const key of candidates) {
+      try {
+        if (Keypair.fromPublicKey(key).verify(data, sig)) return undefined;
+      } catch {}
+    }
+    return "bad signature";
+  }
+  return `unsupported signature algorithm ${alg}`;
+};
+
+// Outbound encode; headers always carry content type/encoding like FastStream does
+const encodeMessage = (channel: string, data: string, headers: Record<string, string>, sign = WC_AUTH_SIGN_OUTBOUND): Buffer | string => {
+  const all = { content_type: "application/json", content_encoding: "utf-8", ...headers, ...(sign ? signatureHeaders(data) : {}) };
+  if (formatFor(channel) === "binary") {
+    return encodeFSMessageV1(data, all);
+  }
+  return JSON.stringify({ data, headers: all });
+};
+
+// Bridge state kept in Redis whatever the transport: persistence, instance ownership, audit journal, rate limit counters, nonces
+const REDIS_STATE =
+  WC_PERSIST || WC_MULTI_INSTANCE || WC_AUDIT || WC_RATE_LIMIT_SESSION > 0 || WC_RATE_LIMIT_ADDRESS > 0 || AUTH_ACCEPTED_KEYS.size > 0 || !!WC_AUTH_HMAC_SECRET;
+
+// Push to a bridge-owned queue; returns list length (lists) or entry id (streams).
+// Stream entries carry the encoded message in the "__data__" field, as FastStream does.
+const pushToQueue = async (client: RedisClientType, key: string, payload: Buffer | string): Promise<number | string> => {
+  if (WC_QUEUE_MODE === "streams") {
+    const id: Buffer | string = await client.sendCommand([
+      "XADD", key, "MAXLEN", "~", String(WC_STREAM_MAXLEN), "*", "__data__", payload,
+    ]);
+    return id.toString();
+  }
+  return client.rPush(key, payload);
+};
+
+// Reads whose replies may be BinaryMessageFormatV1: bulk strings as raw bytes, UTF-8 decoding would mangle them
+const BUFFER_REPLIES = { typeMapping: { [RESP_TYPES.BLOB_STRING]: Buffer } };
+
+// Min idle time before a pending entry is claimed: our own failed entries after the retry backoff, another consumer's
+// only once it looks dead, so an entry a live but slow replica is still handling is not handled twice
+const pendingClaimIdle = (consumer: string, deliveries: number) => {
+  const backoff = Math.min(WC_STREAM_RETRY_BASE_MS * 2 ** Math.max(0, deliveries - 1), WC_STREAM_RETRY_MAX_MS);
+  return consumer === WC_STREAM_CONSUMER ? backoff : Math.max(backoff, WC_STREAM_CLAIM_IDLE_MS);
+};
+
+// Flat [field, value, field, value, ...] stream entry -> value of `name`
+const streamField = (fields: Buffer[] | null | undefined, name: string): Buffer | undefined => {
+  if (!fields) return undefined;
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    if (fields[i].toString() === name) return fields[i + 1];
+  }
+  return undefined;
+};
+
+// Minimal Prometheus registry: labelled counters and histograms rendered in text exposition format
+class MetricsRegistry {
+  private counters = new Map<string, { help: string; values: Map<string, number> }>();
+  private histograms = new Map<string, { help: string; buckets: number[]; values: Map<string, { counts: number[]; sum: number; count: number }> }>();
+
+  private key = (labels: Record<string, string>): string =>
+    Object.entries(labels)
+      .map(([k, v]) => `${k}="${String(v).replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`)
+      .join(",");
+
+  counter(name: string, help: string) {
+    this.counters.set(name, { help, values: new Map() });
+  }
+
+  histogram(name: string, help: string, buckets: number[]) {
+    this.histograms.set(name, { help, buckets, values: new Map() });
+  }
+
+  inc(name: string, labels: Record<string, string> = {}, by = 1) {
+    const c = this.counters.get(name);
+    if (!c) return;
+    const k = this.key(labels);
+    c.values.set(k, (c.values.get(k) || 0) + by);
+  }
+
+  observe(name: string, labels: Record<string, string>, value: number) {
+    const h = this.histograms.get(name);
+    if (!h) return;
+    const k = this.key(labels);
+    const v = h.values.get(k) ?? { counts: h.buckets.map(() => 0), sum: 0, count: 0 };
+    h.buckets.forEach((b, i) => { if (value <= b) v.counts[i]++; });
+    v.sum += value;
+    v.count++;
+    h.values.set(k, v);
+  }
+
+  // Gauges are sampled at scrape time by the caller
+  render(gauges: Record<string, { help: string; value: number }> = {}): string {
+    const lines: string[] = [];
+    const withLabels = (name: string, k: string, extra?: string) => {
+      const all = [k, extra].filter(Boolean).join(",");
+      return all ? `${name}{${all}}` : name;
+    };
+    for (const [name, c] of this.counters) {
+      lines.push(`# HELP ${name} ${c.help}`, `# TYPE ${name} counter`);
+      for (const [k, v] of c.values) lines.push(`${withLabels(name, k)} ${v}`);
+    }
+    for (const [name, h] of this.histograms) {
+      lines.push(`# HELP ${name} ${h.help}`, `# TYPE ${name} histogram`);
+      for (const [k, v] of h.values) {
+        h.buckets.forEach((b, i) => lines.push(`${withLabels(`${name}_bucket`, k, `le="${b}"`)} ${v.counts[i]}`));
+        lines.push(`${withLabels(`${name}_bucket`, k, 'le="+Inf"')} ${v.count}`);
+        lines.push(`${withLabels(`${name}_sum`, k)} ${v.sum}`);
+        lines.push(`${withLabels(`${name}_count`, k)} ${v.count}`);
+      }
+    }
+    for (const [name, g] of Object.entries(gauges)) {
+      lines.push(`# HELP ${name} ${g.help}`, `# TYPE ${name} gauge`, `${name} ${g.value}`);
+    }
+    return lines.join("\n") + "\n";
+  }
+}
+
+const metrics = new MetricsRegistry();
+metrics.counter("wc_pairing_requests_total", "Pairing requests by outcome (queued, failed, invalid).");
+metrics.counter("wc_proposals_total", "Session proposals by outcome (approved, rejected) and reason.");
+metrics.counter("wc_sign_requests_total", "Session requests by method and outcome.");
+metrics.counter("wc_rpc_timeouts_total", "Broker calls (sign/review requests) that timed out, by list.");
+metrics.histogram("wc_rpc_call_duration_seconds", "Broker call latency from push to reply, by list and outcome.",
+  [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300]);
+
+const reconnectDelay = (retries: number) =>
+  Math.min(WC_REDIS_RECONNECT_BASE_MS * 2 ** Math.min(retries, 16), WC_REDIS_RECONNECT_MAX_MS);
+
+// Tracing: W3C trace context (traceparent/tracestate) and OpenTelemetry-style spans. Spans always exist for log
+// correlation and propagation; they are exported only when an OTLP endpoint is configured.
+const OTLP_TRACES_URL = process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  || (process.env.OTEL_EXPORTER_OTLP_ENDPOINT ? `${process.env.OTEL_EXPORTER_OTLP_ENDPOINT.replace(/\/+$/, "")}/v1/traces` : "");
+// "k1=v1,k2=v2", e.g. an auth header of the collector; split at the first "=" only, base64 values may end in "="
+const OTLP_HEADERS: Record<string, string> = Object.fromEntries(
+  (process.env.OTEL_EXPORTER_OTLP_HEADERS || "").split(",")
+    .map((kv) => {
+      const i = kv.indexOf("=");
+      return i < 0 ? [] : [kv.slice(0, i), kv.slice(i + 1)].map((p) => decodeURIComponent(p.trim()));
+    })
+    .filter(([k, v]) => k && v !== undefined)
+);
+const OTEL_SERVICE_NAME = process.env.OTEL_SERVICE_NAME || "walletconnect-bridge";
+const OTEL_BSP_SCHEDULE_DELAY = Number(process.env.OTEL_BSP_SCHEDULE_DELAY || 5_000);
+const OTEL_BSP_MAX_QUEUE_SIZE = Number(process.env.OTEL_BSP_MAX_QUEUE_SIZE || 2_048);
+const OTEL_BSP_MAX_EXPORT_BATCH_SIZE = Number(process.env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE || 512);
+
+type SpanContext = { traceId: string; spanId: string; sampled: boolean; traceState?: string };
+type SpanKind = "internal" | "server" | "client" | "producer" | "consumer";
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3, producer: 4, consumer: 5 };
+
+const TRACEPARENT_RE = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+// Invalid or all-zero ids are ignored (the span starts a new trace), as the W3C spec requires
+const parseTraceparent = (traceparent?: string, traceState?: string): SpanContext | undefined => {
+  const m = TRACEPARENT_RE.exec((traceparent || "").trim().toLowerCase());
+  if (!m || m[1] === "ff" || /^0+$/.test(m[2]) || /^0+$/.test(m[3])) return undefined;
+  return { traceId: m[2], spanId: m[3], sampled: (parseInt(m[4], 16) & 1) === 1, traceState: traceState || undefined };
+};
+
+class Span {
+  readonly traceId: string;
+  readonly spanId = randomBytes(8).toString("hex");
+  readonly parentSpanId?: string;
+  readonly sampled: boolean;
+  readonly traceState?: string;
+  private readonly startNs = process.hrtime.bigint();
+  private readonly startUnixNs = BigInt(Date.now()) * 1_000_000n;
+  private endUnixNs?: bigint;
+  private attributes: Record<string, unknown> = {};
+  private status: { code: number; message?: string } = { code: 0 };
+
+  constructor(readonly name: string, readonly kind: SpanKind, parent?: SpanContext) {
+    this.traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+    this.parentSpanId = parent?.spanId;
+    this.sampled = parent?.sampled ?? true;
+    this.traceState = parent?.traceState;
+  }
+
+  get context(): SpanContext {
+    return { traceId: this.traceId, spanId: this.spanId, sampled: this.sampled, traceState: this.traceState };
+  }
+
+  setAttributes(attributes: Record<string, unknown>) {
+    for (const [k, v] of Object.entries(attributes)) if (v !== undefined && v !== null) this.attributes[k] = v;
+  }
+
+  setError(message: string) {
+    this.status = { code: 2, message };
+  }
+
+  end() {
+    if (this.endUnixNs !== undefined) return;
+    this.endUnixNs = this.startUnixNs + (process.hrtime.bigint() - this.startNs);
+    if (this.sampled) otlpExporter?.enqueue(this);
+  }
+
+  toOtlp() {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      traceState: this.traceState,
+      name: this.name,
+      kind: OTLP_SPAN_KINDS[this.kind],
+      startTimeUnixNano: String(this.startUnixNs),
+      endTimeUnixNano: String(this.endUnixNs ?? this.startUnixNs),
+      attributes: otlpAttributes(this.attributes),
+      status: this.status,
+    };
+  }
+}
+
+const otlpAttributes = (attributes: Record<string, unknown>) =>
+  Object.entries(attributes).map(([key, v]) => ({
+    key,
+    value: typeof v === "boolean" ? { boolValue: v }
+      : typeof v === "number" ? (Number.isInteger(v) ? { intValue: String(v) } : { doubleValue: v })
+      : { stringValue: typeof v === "string" ? v : JSON.stringify(v) },
+  }));
+
+// Batches ended spans and POSTs them as OTLP/HTTP JSON; a failed export is logged and dropped
+class OtlpExporter {
+  private queue: Span[] = [];
+  private dropped = 0;
+  private timer: NodeJS.Timeout;
+
+  constructor(private url: string) {
+    this.timer = setInterval(() => void this.flush(), OTEL_BSP_SCHEDULE_DELAY);
+    this.timer.unref?.();
+  }
+
+  enqueue(span: Span) {
+    if (this.queue.length >= OTEL_BSP_MAX_QUEUE_SIZE) {
+      this.dropped++;
+      return;
+    }
+    this.queue.push(span);
+    if (this.queue.length >= OTEL_BSP_MAX_EXPORT_BATCH_SIZE) void this.flush();
+  }
+
+  async flush() {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, OTEL_BSP_MAX_EXPORT_BATCH_SIZE);
+      const body = {
+        resourceSpans: [{
+          resource: { attributes: otlpAttributes({ "service.name": OTEL_SERVICE_NAME, "service.instance.id": `${hostname()}-${process.pid}` }) },
+          scopeSpans: [{ scope: { name: "walletconnect-bridge" }, spans: batch.map((span) => span.toOtlp()) }],
+        }],
+      };
+      try {
+        const res = await fetch(this.url, {
+          method: "POST",
+          headers: { "content-type": "application/json", ...OTLP_HEADERS },
+          body: JSON.stringify(body),
+          signal: AbortSignal.timeout(10_000),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      } catch (e) {
+        // Logged outside any span so the exporter never reports on itself
+        traceStore.exit(() => log("warn", "OtlpExporter", "export_failed", { spans: batch.length, dropped: this.dropped, error: String(e) }));
+        return;
+      }
+    }
+  }
+
+  async shutdown() {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+}
+
+const otlpExporter = OTLP_TRACES_URL ? new OtlpExporter(OTLP_TRACES_URL) : undefined;
+
+// Runs fn with a new span as the active one (child of `parent`, else of the active span); throwing marks it failed
+const withSpan = async <T>(
+  name: string,
+  opts: { kind?: SpanKind; parent?: SpanContext; attributes?: Record<string, unknown> },
+  fn: (span: Span) => Promise<T>,
+): Promise<T> => {
+  const span = new Span(name, opts.kind ?? "internal", opts.parent ?? traceStore.getStore()?.context);
+  if (opts.attributes) span.setAttributes(opts.attributes);
+  return traceStore.run(span, async () => {
+    try {
+      return await fn(span);
+    } catch (e) {
+      span.setError(String(e));
+      throw e;
+    } finally {
+      span.end();
+    }
+  });
+};
+
+const activeSpan = () => traceStore.getStore();
+
+// Envelope headers carrying the active span to the broker
+const traceHeaders = (): Record<string, string> => {
+  const span = traceStore.getStore();
+  if (!span) return {};
+  const headers: Record<string, string> = { traceparent: `00-${span.traceId}-${span.spanId}-${span.sampled ? "01" : "00"}` };
+  if (span.traceState) headers.tracestate = span.traceState;
+  return headers;
+};
+
+// Thrown by RedisRPC.call when no reply arrived before the deadline
+class RpcTimeoutError extends Error {}
+
+// Thrown for commands that can never succeed as sent (validation, unknown target): answered, never retried
+class InvalidRequestError extends Error {}
 
 class RedisRPC {
   private pub: RedisClientType;
   private blk: RedisClientType;
   private sub: RedisClientType;
+  // Reply channels currently awaited, restored on redisSub reconnect
+  private subscriptions = new Map<string, (message: Buffer) => void>();
   private waiters: Map<string, (msg: any) => void> = new Map();
 
   constructor(pub: RedisClientType, blk: RedisClientType, sub: RedisClientType) {
@@ -49,87 +1172,87 @@ class RedisRPC {
     log("debug", "RedisRPC", "constructor", { hasPub: !!pub, hasBlk: !!blk, hasSub: !!sub });
   }
 
-  async call(request: any, timeoutMs = 300_000): Promise<any> {
-    log("debug", "RedisRPC.call", "enter", { timeoutMs });
+  async call(request: any, timeoutMs = 300_000, list = CH_SIGN_REQUEST, signal?: AbortSignal): Promise<any> {
+    return withSpan("RedisRPC.call", {
+      kind: "client",
+      attributes: { "messaging.system": "redis", "messaging.destination.name": list, "wc.queue_mode": WC_QUEUE_MODE },
+    }, () => this.roundTrip(request, timeoutMs, list, signal));
+  }
+
+  private async roundTrip(request: any, timeoutMs: number, list: string, signal?: AbortSignal): Promise<any> {
+    log("debug", "RedisRPC.call", "enter", { timeoutMs, list });
+    const startedAt = Date.now();
     const cid = uuidv4();
+    activeSpan()?.setAttributes({ "messaging.message.conversation_id": cid });
     const replyTo = `wc-sign-replies:${cid}`;
     const inner = { ...request, cid, replyTo };
-    const envelope = {
-      data: JSON.stringify(inner),
-      headers: {
-        reply_to: replyTo,
-        correlation_id: cid,
-        content_type: "application/json",
-        content_encoding: "utf-8",
-      },
-    };
-    const payload = JSON.stringify(envelope);
-    log("debug", "RedisRPC.call", "prepared", { cid, replyTo, envelope });
+    const payload = encodeMessage(list, JSON.stringify(inner), { reply_to: replyTo, correlation_id: cid, ...traceHeaders() });
+    log("debug", "RedisRPC.call", "prepared", { cid, replyTo, format: formatFor(list), inner });
 
-    // Push request to a Redis List and wait for reply via BLPOP on a reply list
-    const pushLen = await this.pub.rPush(CH_SIGN_REQUEST, payload);
-    log("info", "RedisRPC.call", "queued_rpush", { list: CH_SIGN_REQUEST, length: pushLen, cid });
+    // Push request to the queue and wait for reply via BLPOP on a reply list
+    const ref = await pushToQueue(this.pub, list, payload);
+    log("info", "RedisRPC.call", "queued", { list, mode: WC_QUEUE_MODE, ref, cid });
 
     const deadline = Date.now() + timeoutMs;
     let resolved = false;
     let result: any | undefined;
 
-    // Parser shared by both paths
-    const parseFS = (buf: Buffer | string): string => {
-      const b = Buffer.isBuffer(buf) ? buf : Buffer.from(buf as string);
-      try {
-        const marker = Buffer.from([0x42, 0x49, 0x4e, 0x0d, 0x0a, 0x1a, 0x0a]);
-        const j = b.indexOf(marker, 0);
-        if (j >= 0 && b.length >= j + 17) {
-          const msgStart = Math.max(0, j - 1);
-          const ver = b.readUInt16BE(j + 7);
-          const dataStart = b.readUInt32BE(j + 13);
-          const absDataStart = msgStart + dataStart;
-          log("debug", "RedisRPC.call", "fs.binary.detected", { j, msgStart, ver, dataStart, absDataStart, len: b.length });
-          if (ver === 1 && absDataStart > 0 && absDataStart <= b.length) {
-            return b.subarray(absDataStart).toString("utf8");
-          }
-        }
-      } catch {}
-      try {
-        const env = JSON.parse(b.toString("utf8"));
-        if (env && typeof env.data === "string") return env.data;
-      } catch {}
-      return b.toString("utf8");
+    // Decoder shared by both paths; a reply tagged with another correlation_id is not ours
+    const decodeReply = (buf: Buffer): any => {
+      const { body, headers, format } = parseFSMessageV1(buf);
+      log("debug", "RedisRPC.call", "reply.decoded", { cid, format, headers, body });
+      if (headers.correlation_id && headers.correlation_id !== cid) {
+        throw new Error(`correlation_id mismatch: ${headers.correlation_id}`);
+      }
+      return JSON.parse(body);
     };
 
     // Subscribe to Pub/Sub channel for reply (compat with FastStream return)
-    await this.sub.subscribe(replyTo, (message: string) => {
+    // Buffer mode: string decoding would mangle the binary magic (0x89 -> U+FFFD)
+    const onMessage = (message: Buffer) => {
       if (resolved) return;
       try {
-        const body = parseFS(message);
-        log("debug", "RedisRPC.call", "psub.body", { body });
-        const msg = JSON.parse(body);
+        const msg = decodeReply(message);
         resolved = true;
         result = msg;
       } catch (e) {
         log("error", "RedisRPC.call", "psub.parse_error", { cid, error: String(e) });
       }
-    });
-    log("info", "RedisRPC.call", "subscribed", { channel: replyTo });
+    };
+    this.subscriptions.set(replyTo, onMessage);
+    try {
+      await this.sub.subscribe(replyTo, onMessage, true);
+      log("info", "RedisRPC.call", "subscribed", { channel: replyTo });
+    } catch (e) {
+      // BLPOP alone still gets the reply; resubscribe() restores the channel once redisSub is back
+      log("warn", "RedisRPC.call", "subscribe_failed", { channel: replyTo, error: String(e) });
+    }
 
     // Poll BLPOP in short intervals to allow early Pub/Sub resolution
-    while (!resolved && Date.now() < deadline) {
+    let failures = 0;
+    while (!resolved && !signal?.aborted && Date.now() < deadline) {
       const remainMs = Math.max(0, deadline - Date.now());
       const tickSec = Math.max(1, Math.min(5, Math.ceil(remainMs / 1000)));
-      const replyRaw: any = await (this.blk as any).sendCommand([
-        "BLPOP",
-        replyTo,
-        String(tickSec),
-      ], { returnBuffers: true } as any);
+      let replyRaw: any;
+      try {
+        replyRaw = await this.blk.sendCommand([
+          "BLPOP",
+          replyTo,
+          String(tickSec),
+        ], BUFFER_REPLIES);
+        failures = 0;
+      } catch (e) {
+        // Connection lost: keep waiting (the reply stays in the list) until redisBlk reconnects or the deadline
+        log("warn", "RedisRPC.call", "blpop_error", { cid, failures, error: String(e) });
+        await new Promise((r) => setTimeout(r, Math.min(reconnectDelay(failures++), Math.max(0, deadline - Date.now()))));
+        continue;
+      }
       if (replyRaw && !resolved) {
         const keyBuf: Buffer = replyRaw[0];
         const raw: Buffer = replyRaw[1];
         log("debug", "RedisRPC.call", "blpop.reply", { key: keyBuf.toString(), size: raw.length });
         try {
-          const body = parseFS(raw);
-          log("debug", "RedisRPC.call", "reply.body", { body });
-          result = JSON.parse(body);
+          result = decodeReply(raw);
           resolved = true;
           break;
         } catch (e) {
@@ -139,192 +1262,1859 @@ class RedisRPC {
       }
     }
 
-    // Cleanup subscription
-    try { await this.sub.unsubscribe(replyTo); } catch {}
+    // Cleanup subscription
+    this.subscriptions.delete(replyTo);
+    try { await this.sub.unsubscribe(replyTo); } catch {}
+
+    if (!resolved && signal?.aborted) {
+      log("info", "RedisRPC.call", "aborted", { cid, replyTo });
+      throw new Error("sign cancelled");
+    }
+    if (!resolved) {
+      log("error", "RedisRPC.call", "timeout", { cid, replyTo });
+      metrics.inc("wc_rpc_timeouts_total", { list });
+      metrics.observe("wc_rpc_call_duration_seconds", { list, outcome: "timeout" }, (Date.now() - startedAt) / 1000);
+      throw new RpcTimeoutError("sign timeout");
+    }
+    log("info", "RedisRPC.call", "resolve", { cid });
+    metrics.observe("wc_rpc_call_duration_seconds", { list, outcome: "reply" }, (Date.now() - startedAt) / 1000);
+    return result;
+  }
+
+  // Called when redisSub is ready again after a reconnect
+  async resubscribe() {
+    log("info", "RedisRPC.resubscribe", "enter", { channels: this.subscriptions.size });
+    for (const [channel, listener] of this.subscriptions) {
+      try {
+        await this.sub.subscribe(channel, listener, true);
+      } catch (e) {
+        log("error", "RedisRPC.resubscribe", "subscribe_failed", { channel, error: String(e) });
+      }
+    }
+  }
+}
+
+// Broker-facing side of the bridge: intake of pairing requests and control commands, events out, sign request/reply.
+// Channels keep their Redis names (CH_*) in every transport; the bridge never talks to the broker directly.
+type InboundSink = {
+  // channel: CH_PAIRING_REQUEST, CH_CONTROL or this instance's control list; throwing leaves the message for retry where supported
+  dispatch: (channel: string, body: string, headers: Record<string, string>) => Promise<void>;
+  // Intake failures the broker should hear about (e.g. a dead-lettered pairing request), published as events
+  failed: (event: Record<string, unknown>) => Promise<void>;
+};
+
+type BrokerTransport = {
+  readonly name: string;
+  // Begin intake; resolves once it is running
+  start: (sink: InboundSink) => Promise<void>;
+  // Stop intake only: in-flight calls still get their replies during the shutdown grace period
+  stop: () => Promise<void>;
+  // Release whatever is left after stop()
+  close: () => Promise<void>;
+  publish: (channel: string, data: string, headers: Record<string, string>) => Promise<number | string>;
+  // Sign request/reply: throws RpcTimeoutError on timeout and "sign cancelled" when the signal aborts
+  call: (request: any, timeoutMs: number, channel: string, signal?: AbortSignal) => Promise<any>;
+  // Reply to a control command that carried reply_to
+  reply: (replyTo: string, data: string, headers: Record<string, string>) => Promise<void>;
+  health: () => Record<string, boolean>;
+};
+
+// Redis Lists (or Streams with WC_QUEUE_MODE=streams) on the bridge's clients; replies over Pub/Sub and Lists
+class RedisTransport implements BrokerTransport {
+  readonly name = "redis";
+  private pub: RedisClientType;
+  private pair: RedisClientType;
+  private rpc: RedisRPC;
+  // Intake keys are read when the consumer starts: the instance control list is known only after claimInstance
+  private inboundKeys: () => string[];
+  private sink?: InboundSink;
+  private stopped = false;
+  private consumerRunning = false;
+  // Set while the consumer cannot read for a reason Redis reconnection will not fix (e.g. a stream key of the wrong type)
+  private consumerError?: string;
+
+  constructor(pub: RedisClientType, blk: RedisClientType, sub: RedisClientType, pair: RedisClientType, inboundKeys: () => string[]) {
+    this.pub = pub;
+    this.pair = pair;
+    this.inboundKeys = inboundKeys;
+    this.rpc = new RedisRPC(pub, blk, sub);
+    // Fires on the first connect too, when there is nothing to restore yet
+    sub.on("ready", () => {
+      this.rpc.resubscribe().catch((e) => log("error", "RedisTransport", "resubscribe_failed", { error: String(e) }));
+    });
+  }
+
+  async start(sink: InboundSink) {
+    this.sink = sink;
+    this.consumerRunning = true;
+    this.consumePairingRequests()
+      .catch((e) => log("error", "consumePairingRequests", "fatal", { error: String(e) }))
+      .finally(() => { this.consumerRunning = false; });
+    log("info", "RedisTransport.start", "consumer.started", { keys: this.inboundKeys(), mode: WC_QUEUE_MODE });
+  }
+
+  // The consumer sits in a blocking read; dropping its connection ends the loop (unread messages stay in Redis)
+  async stop() {
+    this.stopped = true;
+    this.pair.destroy();
+    log("info", "RedisTransport.stop", "consumer.stopped");
+  }
+
+  // Clients belong to the bridge, which closes them
+  async close() {}
+
+  async publish(channel: string, data: string, headers: Record<string, string>) {
+    return pushToQueue(this.pub, channel, encodeMessage(channel, data, headers));
+  }
+
+  call(request: any, timeoutMs: number, channel: string, signal?: AbortSignal) {
+    return this.rpc.call(request, timeoutMs, channel, signal);
+  }
+
+  async reply(replyTo: string, data: string, headers: Record<string, string>) {
+    const len = await this.pub.rPush(replyTo, encodeMessage("reply_to", data, headers));
+    log("info", "RedisTransport.reply", "queued_rpush", { list: replyTo, length: len, correlation_id: headers.correlation_id });
+  }
+
+  health() {
+    return { consumer: this.consumerRunning && !this.consumerError };
+  }
+
+  // Single blocking consumer for all inbound lists; BLPOP reports which list the message came from
+  private async consumePairingRequests() {
+    if (WC_QUEUE_MODE === "streams") return this.consumeStreams();
+    const keys = this.inboundKeys();
+    log("info", "consumePairingRequests", "enter", { lists: keys });
+    let failures = 0;
+    while (!this.stopped) {
+      try {
+        const reply: any = await this.pair.sendCommand([
+          "BLPOP",
+          ...keys,
+          "0",
+        ], BUFFER_REPLIES);
+        if (!reply) continue;
+        const keyBuf: Buffer = reply[0];
+        const raw: Buffer = reply[1];
+        const key = keyBuf.toString();
+        failures = 0;
+        log("debug", "consumePairingRequests", "blpop", { key, size: raw.length });
+        let decoded: DecodedMessage;
+        try {
+          decoded = parseFSMessageV1(raw);
+        } catch (e) {
+          // Already popped, nothing to retry: report it and read on
+          log("warn", "consumePairingRequests", "undecodable", { key, size: raw.length, error: String(e) });
+          await this.sink!.failed({ status: "failed", source: key, error: `Undecodable message: ${String(e)}` });
+          continue;
+        }
+        const { body, headers, format } = decoded;
+        log("debug", "consumePairingRequests", "decoded", { key, format, body, headers });
+        await this.sink!.dispatch(key, body, headers);
+      } catch (e) {
+        if (this.stopped) break;
+        // Redis down: node-redis reconnects in the background, the loop resumes once BLPOP succeeds again
+        log("error", "consumePairingRequests", "loop_error", { error: String(e), failures });
+        await new Promise((r) => setTimeout(r, reconnectDelay(failures++)));
+      }
+    }
+    log("info", "consumePairingRequests", "exit");
+  }
+
+  // Streams mode: consumer group on both inbound streams, ACK after handling, retry pending entries with backoff
+  private async consumeStreams() {
+    const keys = this.inboundKeys();
+    log("info", "consumeStreams", "enter", { streams: keys, group: WC_STREAM_GROUP, consumer: WC_STREAM_CONSUMER });
+    let groupsReady = false;
+    let nextRetryScan = 0;
+    let failures = 0;
+    while (!this.stopped) {
+      try {
+        if (!groupsReady) {
+          await this.createGroups(keys);
+          groupsReady = true;
+        }
+        if (Date.now() >= nextRetryScan) {
+          for (const key of keys) await this.retryPending(key);
+          nextRetryScan = Date.now() + WC_STREAM_RETRY_BASE_MS;
+        }
+        const reply: any = await this.pair.sendCommand([
+          "XREADGROUP", "GROUP", WC_STREAM_GROUP, WC_STREAM_CONSUMER,
+          "COUNT", "10",
+          "BLOCK", String(WC_STREAM_RETRY_BASE_MS),
+          "STREAMS", ...keys, ...keys.map(() => ">"),
+        ], BUFFER_REPLIES);
+        failures = 0;
+        if (this.consumerError) {
+          log("info", "consumeStreams", "recovered", { error: this.consumerError });
+          this.consumerError = undefined;
+        }
+        if (!reply) continue;
+        for (const [keyBuf, entries] of reply as [Buffer, [Buffer, Buffer[]][]][]) {
+          for (const [idBuf, fields] of entries) {
+            await this.handleStreamEntry(keyBuf.toString(), idBuf.toString(), fields, 1);
+          }
+        }
+      } catch (e) {
+        if (this.stopped) break;
+        const error = String(e);
+        if (error.includes("NOGROUP")) {
+          // Group gone (Redis restarted without persistence, FLUSHDB, stream deleted or trimmed away): recreate it
+          log("warn", "consumeStreams", "group.missing", { error });
+          groupsReady = false;
+          continue;
+        }
+        if (error.includes("WRONGTYPE")) {
+          // Not fixed by reconnecting, but by an operator: keep retrying and report unhealthy meanwhile
+          this.consumerError = `${keys.join(", ")} must be streams or absent (a key left over from WC_QUEUE_MODE=lists?): ${error}`;
+          log("error", "consumeStreams", "config_error", { error: this.consumerError });
+          groupsReady = false;
+        } else {
+          log("error", "consumeStreams", "loop_error", { error, failures });
+        }
+        await new Promise((r) => setTimeout(r, reconnectDelay(failures++)));
+      }
+    }
+    log("info", "consumeStreams", "exit");
+  }
+
+  // MKSTREAM also recreates a stream that was deleted; BUSYGROUP means the group is already there
+  private createGroups = async (keys: string[]) => {
+    for (const key of keys) {
+      try {
+        // "0": also pick up entries added before the group existed
+        await this.pair.sendCommand(["XGROUP", "CREATE", key, WC_STREAM_GROUP, "0", "MKSTREAM"]);
+        log("info", "consumeStreams", "group.created", { key });
+      } catch (e) {
+        if (!String(e).includes("BUSYGROUP")) throw e;
+      }
+    }
+  };
+
+  // Undecodable entries go straight to the dead-letter stream; handler failures stay pending for retry
+  private handleStreamEntry = async (key: string, id: string, fields: Buffer[] | null, deliveries: number) => {
+    const raw = streamField(fields, "__data__") ?? streamField(fields, "data");
+    log("debug", "handleStreamEntry", "enter", { key, id, deliveries, size: raw?.length });
+    let decoded: DecodedMessage;
+    try {
+      if (!raw) throw new Error("entry has no __data__ field");
+      decoded = parseFSMessageV1(raw);
+      JSON.parse(decoded.body);
+    } catch (e) {
+      await this.deadLetter(key, id, raw, `undecodable: ${String(e)}`, deliveries);
+      return;
+    }
+    try {
+      await this.sink!.dispatch(key, decoded.body, decoded.headers);
+      await this.pair.sendCommand(["XACK", key, WC_STREAM_GROUP, id]);
+      log("debug", "handleStreamEntry", "acked", { key, id });
+    } catch (e) {
+      log("warn", "handleStreamEntry", "handler_failed", { key, id, deliveries, error: String(e) });
+    }
+  };
+
+  private retryPending = async (key: string) => {
+    const pending: any[] = await this.pair.sendCommand(["XPENDING", key, WC_STREAM_GROUP, "-", "+", "50"]);
+    for (const [idRaw, consumerRaw, idle, count] of pending || []) {
+      const id = String(idRaw);
+      const deliveries = Number(count);
+      const minIdle = pendingClaimIdle(String(consumerRaw), deliveries);
+      if (Number(idle) < minIdle) continue;
+      // min-idle guards against racing another consumer that claimed or touched it meanwhile
+      const claimed: any[] = await this.pair.sendCommand([
+        "XCLAIM", key, WC_STREAM_GROUP, WC_STREAM_CONSUMER, String(minIdle), id,
+      ], BUFFER_REPLIES);
+      const entry = (claimed || []).find((c: any) => c && String(c[0]) === id);
+      if (!entry) {
+        // Trimmed/deleted from the stream (or claimed elsewhere): nothing to retry
+        log("debug", "retryPending", "not_claimed", { key, id });
+        continue;
+      }
+      if (deliveries >= WC_STREAM_MAX_DELIVERIES) {
+        await this.deadLetter(key, id, streamField(entry[1], "__data__") ?? streamField(entry[1], "data"), "max deliveries exceeded", deliveries);
+        continue;
+      }
+      log("info", "retryPending", "retry", { key, id, deliveries, owner: String(consumerRaw), min_idle: minIdle });
+      await this.handleStreamEntry(key, id, entry[1], deliveries + 1);
+    }
+  };
+
+  private deadLetter = async (key: string, id: string, raw: Buffer | undefined, error: string, deliveries: number) => {
+    const dlq = `${key}:dlq`;
+    log("warn", "deadLetter", "enter", { key, id, dlq, error, deliveries });
+    await this.pub.sendCommand([
+      "XADD", dlq, "MAXLEN", "~", String(WC_STREAM_MAXLEN), "*",
+      "__data__", raw ?? "",
+      "error", error,
+      "source_stream", key,
+      "source_id", id,
+      "deliveries", String(deliveries),
+      "consumer", WC_STREAM_CONSUMER,
+    ]);
+    await this.pair.sendCommand(["XACK", key, WC_STREAM_GROUP, id]);
+    if (key === CH_PAIRING_REQUEST) {
+      await this.sink!.failed({ status: "failed", error: `Pairing request dead-lettered: ${error}`, dead_letter_id: id });
+    }
+  };
+}
+
+// Thrown by postWithRetry for answers a retry will not fix (4xx other than 429)
+class HttpStatusError extends Error {
+  constructor(readonly status: number, readonly body: string) {
+    super(`HTTP ${status}: ${body.slice(0, 200)}`);
+  }
+}
+
+// POST with per-attempt timeout and exponential backoff on network errors, 429 and 5xx; gives up at the deadline
+const postWithRetry = async (
+  url: string,
+  body: string,
+  headers: Record<string, string>,
+  opts: { attemptTimeoutMs: number; deadline?: number; signal?: AbortSignal },
+): Promise<{ status: number; body: string }> => {
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= WC_HTTP_RETRIES; attempt++) {
+    if (opts.signal?.aborted) throw new Error("sign cancelled");
+    const remaining = opts.deadline !== undefined ? opts.deadline - Date.now() : opts.attemptTimeoutMs;
+    if (remaining <= 0) break;
+    try {
+      const timeout = AbortSignal.timeout(Math.min(opts.attemptTimeoutMs, remaining));
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "content-type": "application/json", ...headers },
+        body,
+        signal: opts.signal ? AbortSignal.any([opts.signal, timeout]) : timeout,
+      });
+      const text = await res.text();
+      if (res.ok) return { status: res.status, body: text };
+      if (res.status !== 429 && res.status < 500) throw new HttpStatusError(res.status, text);
+      lastError = new HttpStatusError(res.status, text);
+    } catch (e) {
+      if (e instanceof HttpStatusError && e.status !== 429 && e.status < 500) throw e;
+      if (opts.signal?.aborted) throw new Error("sign cancelled");
+      lastError = e;
+    }
+    const delay = Math.min(WC_HTTP_RETRY_BASE_MS * 2 ** attempt, WC_HTTP_RETRY_MAX_MS);
+    log("warn", "postWithRetry", "retry", { url, attempt, delay, error: String(lastError) });
+    const left = opts.deadline !== undefined ? opts.deadline - Date.now() : delay;
+    if (attempt < WC_HTTP_RETRIES) await new Promise((r) => setTimeout(r, Math.max(0, Math.min(delay, left))));
+  }
+  throw lastError ?? new Error(`POST ${url}: deadline exceeded`);
+};
+
+// Envelope headers as HTTP headers: correlation_id/reply_to become x-correlation-id/x-reply-to; signature and trace headers stay
+const TRACE_HEADERS = new Set(["traceparent", "tracestate"]);
+
+const toHttpHeaders = (data: string, headers: Record<string, string>): Record<string, string> => {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries({ ...headers, ...(WC_AUTH_SIGN_OUTBOUND ? signatureHeaders(data) : {}) })) {
+    out[k.startsWith("x-") || TRACE_HEADERS.has(k) ? k : `x-${k.replace(/_/g, "-")}`] = v;
+  }
+  return out;
+};
+
+const fromHttpHeaders = (raw: IncomingMessage["headers"]): Record<string, string> => {
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(raw)) {
+    if (typeof v !== "string") continue;
+    if (k === "x-correlation-id") out.correlation_id = v;
+    else if (k.startsWith("x-") || TRACE_HEADERS.has(k)) out[k] = v;
+  }
+  return out;
+};
+
+// Webhooks: events and sign requests are POSTed to WC_HTTP_ENDPOINTS[channel]. A sign reply is either the 200 response
+// body or, after a 202, a POST to <WC_HTTP_PUBLIC_URL>/replies/<cid>. Pairing requests and control commands come in
+// as POST /pairing-requests and POST /control; a control command's reply is its HTTP response.
+class HttpTransport implements BrokerTransport {
+  readonly name = "http";
+  private server?: Server;
+  private sink?: InboundSink;
+  private listening = false;
+  private stopped = false;
+  // cid -> resolver of a pending call awaiting its callback
+  private waiters = new Map<string, (reply: any) => void>();
+  // reply_to assigned to an inbound control request -> its reply, once sent
+  private controlReplies = new Map<string, string>();
+
+  async start(sink: InboundSink) {
+    for (const channel of [CH_PAIRING_EVENTS, CH_SIGN_REQUEST, ...(WC_PROPOSAL_REVIEW ? [CH_PROPOSAL_REVIEW] : [])]) {
+      if (!WC_HTTP_ENDPOINTS[channel]) throw new Error(`WC_HTTP_ENDPOINTS has no URL for ${channel}`);
+    }
+    if (!WC_HTTP_TOKEN && AUTH_ACCEPTED_KEYS.size === 0 && !WC_AUTH_HMAC_SECRET) {
+      throw new Error("HTTP intake needs WC_HTTP_TOKEN or message signature keys (WC_AUTH_HMAC_SECRET / WC_AUTH_ED25519_KEYS)");
+    }
+    this.sink = sink;
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch((e) => {
+        log("error", "HttpTransport", "request_error", { url: req.url, error: String(e) });
+        if (!res.headersSent) this.send(res, 500, { error: String(e) });
+      });
+    });
+    this.server.on("error", (e) => log("error", "HttpTransport", "error", { error: String(e) }));
+    await new Promise<void>((resolve) => this.server!.listen(WC_HTTP_PORT, WC_HTTP_HOST, resolve));
+    this.listening = true;
+    log("info", "HttpTransport.start", "listening", { host: WC_HTTP_HOST, port: WC_HTTP_PORT, public_url: WC_HTTP_PUBLIC_URL || undefined });
+  }
+
+  // New pairing requests and control commands get 503; /replies stays open for in-flight sign requests
+  async stop() {
+    this.stopped = true;
+    log("info", "HttpTransport.stop", "intake.stopped");
+  }
+
+  async close() {
+    this.listening = false;
+    this.server?.close();
+    this.server?.closeAllConnections();
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(typeof body === "string" ? body : JSON.stringify(body));
+  }
+
+  // Hashed first: timingSafeEqual needs equal lengths
+  private hasToken(req: IncomingMessage) {
+    const m = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+    if (!WC_HTTP_TOKEN || !m) return false;
+    const digest = (v: string) => createHash("sha256").update(v).digest();
+    return timingSafeEqual(digest(m[1].trim()), digest(WC_HTTP_TOKEN));
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > HTTP_MAX_BODY_BYTES) {
+          reject(new HttpStatusError(413, "body too large"));
+          req.destroy();
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+      req.on("error", reject);
+    });
+  }
+
+  private handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = (req.url || "/").split("?")[0];
+    if (req.method !== "POST") return this.send(res, 405, { error: "method not allowed" });
+    let body: string;
+    try {
+      body = await this.readBody(req);
+    } catch (e) {
+      return this.send(res, e instanceof HttpStatusError ? e.status : 400, { error: String(e) });
+    }
+    const headers = fromHttpHeaders(req.headers);
+    log("debug", "HttpTransport.handle", "request", { path, size: body.length, headers });
+
+    if (path.startsWith("/replies/")) {
+      const cid = decodeURIComponent(path.slice("/replies/".length));
+      const resolve = this.waiters.get(cid);
+      if (!resolve) return this.send(res, 404, { error: "unknown or expired cid" });
+      let reply: any;
+      try {
+        reply = JSON.parse(body);
+      } catch (e) {
+        return this.send(res, 400, { error: `invalid JSON: ${String(e)}` });
+      }
+      resolve(reply);
+      log("info", "HttpTransport.handle", "reply.received", { cid });
+      return this.send(res, 200, { ok: true });
+    }
+
+    const channel = path === "/pairing-requests" ? CH_PAIRING_REQUEST : path === "/control" ? CH_CONTROL : undefined;
+    if (!channel) return this.send(res, 404, { error: "not found" });
+    // Signed requests are verified by the bridge like Redis messages; unsigned ones need the token
+    if (!headers["x-signature"] && !this.hasToken(req)) {
+      log("warn", "HttpTransport.handle", "unauthorized", { path });
+      return this.send(res, 401, { error: "bearer token or message signature required" });
+    }
+    if (this.stopped || !this.sink) return this.send(res, 503, { error: "bridge is shutting down" });
+    if (channel === CH_PAIRING_REQUEST) {
+      await this.sink.dispatch(channel, body, headers);
+      return this.send(res, 202, { accepted: true });
+    }
+    // The control reply is captured by reply() and returned as the response
+    const replyTo = `http:${uuidv4()}`;
+    try {
+      await this.sink.dispatch(channel, body, { ...headers, reply_to: replyTo });
+      const reply = this.controlReplies.get(replyTo);
+      return reply !== undefined ? this.send(res, 200, reply) : this.send(res, 202, { accepted: true });
+    } finally {
+      this.controlReplies.delete(replyTo);
+    }
+  };
+
+  async publish(channel: string, data: string, headers: Record<string, string>) {
+    const url = WC_HTTP_ENDPOINTS[channel];
+    if (!url) throw new Error(`WC_HTTP_ENDPOINTS has no URL for ${channel}`);
+    const res = await postWithRetry(url, data, toHttpHeaders(data, headers), { attemptTimeoutMs: WC_HTTP_TIMEOUT_MS });
+    log("debug", "HttpTransport.publish", "posted", { channel, status: res.status });
+    return res.status;
+  }
+
+  call(request: any, timeoutMs: number, channel: string, signal?: AbortSignal): Promise<any> {
+    return withSpan("HttpTransport.call", {
+      kind: "client",
+      attributes: { "messaging.system": "http", "messaging.destination.name": channel },
+    }, () => this.roundTrip(request, timeoutMs, channel, signal));
+  }
+
+  private async roundTrip(request: any, timeoutMs: number, channel: string, signal?: AbortSignal): Promise<any> {
+    const url = WC_HTTP_ENDPOINTS[channel];
+    if (!url) throw new Error(`WC_HTTP_ENDPOINTS has no URL for ${channel}`);
+    const startedAt = Date.now();
+    const deadline = startedAt + timeoutMs;
+    const cid = uuidv4();
+    activeSpan()?.setAttributes({ "messaging.message.conversation_id": cid });
+    const replyTo = WC_HTTP_PUBLIC_URL ? `${WC_HTTP_PUBLIC_URL}/replies/${cid}` : undefined;
+    const data = JSON.stringify({ ...request, cid, replyTo });
+    log("debug", "HttpTransport.call", "prepared", { cid, channel, replyTo });
+
+    // Registered before the POST: the callback may arrive before the POST returns
+    let onReply!: (reply: any) => void;
+    const callback = new Promise<any>((resolve) => { onReply = resolve; });
+    this.waiters.set(cid, onReply);
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const observe = (outcome: string) =>
+      metrics.observe("wc_rpc_call_duration_seconds", { list: channel, outcome }, (Date.now() - startedAt) / 1000);
+    try {
+      // The POST may legitimately last until the deadline when the broker answers synchronously
+      const res = await postWithRetry(url, data, toHttpHeaders(data, { correlation_id: cid, ...(replyTo ? { reply_to: replyTo } : {}), ...traceHeaders() }), {
+        attemptTimeoutMs: timeoutMs,
+        deadline,
+        signal,
+      });
+      log("info", "HttpTransport.call", "posted", { cid, channel, status: res.status });
+      if (res.status === 200 && res.body.trim()) {
+        observe("reply");
+        return JSON.parse(res.body);
+      }
+      if (!replyTo) throw new Error(`Broker answered ${res.status} without a reply and WC_HTTP_PUBLIC_URL is not set`);
+      const reply = await new Promise<any>((resolve, reject) => {
+        timer = setTimeout(() => reject(new RpcTimeoutError("sign timeout")), Math.max(0, deadline - Date.now()));
+        onAbort = () => reject(new Error("sign cancelled"));
+        signal?.addEventListener("abort", onAbort, { once: true });
+        callback.then(resolve);
+      });
+      observe("reply");
+      log("info", "HttpTransport.call", "resolve", { cid });
+      return reply;
+    } catch (e) {
+      // A POST that never got through before the deadline is a timeout too
+      const timedOut = e instanceof RpcTimeoutError || (!signal?.aborted && Date.now() >= deadline);
+      if (timedOut) {
+        log("error", "HttpTransport.call", "timeout", { cid, channel });
+        metrics.inc("wc_rpc_timeouts_total", { list: channel });
+        observe("timeout");
+        throw e instanceof RpcTimeoutError ? e : new RpcTimeoutError("sign timeout");
+      }
+      throw e;
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener("abort", onAbort);
+      this.waiters.delete(cid);
+    }
+  }
+
+  async reply(replyTo: string, data: string, headers: Record<string, string>) {
+    if (!replyTo.startsWith("http:")) {
+      log("warn", "HttpTransport.reply", "unknown_reply_to", { replyTo, correlation_id: headers.correlation_id });
+      return;
+    }
+    this.controlReplies.set(replyTo, data);
+  }
+
+  health() {
+    return { http: this.listening };
+  }
+}
+
+// Nothing leaves the process: the embedding code (or a test) plays the broker. Sign requests go to `broker`, events
+// collect in `published` (and `onPublish`), and send() feeds pairing requests and control commands.
+class InProcessTransport implements BrokerTransport {
+  readonly name = "in-process";
+  readonly published: { channel: string; event: any; headers: Record<string, string> }[] = [];
+  onPublish?: (channel: string, event: any) => void;
+  broker: (channel: string, request: any, signal?: AbortSignal) => Promise<any> = async () => {
+    throw new Error("No broker attached to InProcessTransport");
+  };
+  private sink?: InboundSink;
+  private replies = new Map<string, any>();
+
+  async start(sink: InboundSink) {
+    this.sink = sink;
+  }
+
+  async stop() {
+    this.sink = undefined;
+  }
+
+  async close() {}
+
+  async publish(channel: string, data: string, headers: Record<string, string>) {
+    const event = JSON.parse(data);
+    this.published.push({ channel, event, headers });
+    this.onPublish?.(channel, event);
+    return this.published.length;
+  }
+
+  async call(request: any, timeoutMs: number, channel: string, signal?: AbortSignal): Promise<any> {
+    const cid = uuidv4();
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+      return await new Promise<any>((resolve, reject) => {
+        timer = setTimeout(() => reject(new RpcTimeoutError("sign timeout")), timeoutMs);
+        onAbort = () => reject(new Error("sign cancelled"));
+        signal?.addEventListener("abort", onAbort, { once: true });
+        this.broker(channel, { ...request, cid }, signal).then(resolve, reject);
+      });
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  async reply(replyTo: string, data: string) {
+    this.replies.set(replyTo, JSON.parse(data));
+  }
+
+  // Deliver a pairing request or control command; resolves with the control reply ({ result } or { error }), if any
+  async send(channel: string, message: Record<string, unknown>, headers: Record<string, string> = {}) {
+    if (!this.sink) throw new Error("InProcessTransport is not started");
+    const replyTo = `in-process:${uuidv4()}`;
+    await this.sink.dispatch(channel, JSON.stringify(message), { ...headers, reply_to: replyTo });
+    const reply = this.replies.get(replyTo);
+    this.replies.delete(replyTo);
+    return reply;
+  }
+
+  health() {
+    return { intake: !!this.sink };
+  }
+}
+
+// IKeyValueStorage for WalletKit/Core backed by a single Redis Hash (field = storage key, value = JSON)
+class RedisKeyValueStorage {
+  private redis: RedisClientType;
+  private key: string;
+
+  constructor(redis: RedisClientType, key: string) {
+    this.redis = redis;
+    this.key = key;
+    log("debug", "RedisKeyValueStorage", "constructor", { key });
+  }
+
+  private decode = (raw: string | null | undefined): any => {
+    if (raw === null || raw === undefined) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return raw;
+    }
+  };
+
+  async getKeys(): Promise<string[]> {
+    return this.redis.hKeys(this.key);
+  }
+
+  async getEntries<T = any>(): Promise<[string, T][]> {
+    const all = await this.redis.hGetAll(this.key);
+    return Object.entries(all).map(([k, v]) => [k, this.decode(v as string) as T]);
+  }
+
+  async getItem<T = any>(key: string): Promise<T | undefined> {
+    const raw = await this.redis.hGet(this.key, key);
+    return this.decode(raw) as T | undefined;
+  }
+
+  async setItem<T = any>(key: string, value: T): Promise<void> {
+    await this.redis.hSet(this.key, key, JSON.stringify(value));
+    log("debug", "RedisKeyValueStorage", "setItem", { key });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.redis.hDel(this.key, key);
+    log("debug", "RedisKeyValueStorage", "removeItem", { key });
+  }
+}
+
+class Bridge {
+  private core!: any;
+  private wallet!: any;
+  private redisPub!: RedisClientType;
+  private redisSub!: RedisClientType;
+  private redisBlk!: RedisClientType;
+  private redisPair!: RedisClientType;
+  private transport!: BrokerTransport;
+
+  private sessions = new Map<string, SessionInfo>();
+  private pairingBindings = new Map<string, PairingBinding>();
+  private pendingBindings = new Map<string, PendingBinding>();
+
+  // Sign requests waiting for the broker, by request_id; aborting answers the dApp with a user-rejected error
+  private inflight = new Map<string, { client_id: string; wc_req_id: number; method: string; controller: AbortController }>();
+
+  // Shutdown/reconnect state: clients currently reconnecting (name -> since), set once SIGTERM/SIGINT arrives
+  private redisDown = new Map<string, number>();
+  private degradedSince = 0;
+  private stopping = false;
+
+  // Multi-instance: id of the state slot this process holds the lease for; single mode keeps the shared keys
+  private instanceId = WC_INSTANCE_ID || `${hostname()}-${process.pid}`;
+  private controlList = CH_CONTROL;
+  private leaseToken = uuidv4();
+  private leaseTimer?: NodeJS.Timeout;
+
+  // Keep-alive: consecutive ping failures and last ping time per session topic
+  private keepAliveTimer?: NodeJS.Timeout;
+  private keepAliveRunning = false;
+  private pingFailures = new Map<string, number>();
+  private lastPing = new Map<string, number>();
+
+  // Liveness/readiness state reported by the admin server
+  private admin?: Server;
+  private ready = false;
+
+  // Without a transport, start() builds the one selected by WC_TRANSPORT
+  constructor(transport?: BrokerTransport) {
+    if (transport) this.transport = transport;
+  }
+
+  async start() {
+    log("info", "Bridge.start", "enter", { REDIS_URL });
+    // Forwarded commands must verify on their owner: the sender's nonce is used up here, forwardByAddress ones are unsigned
+    if (WC_MULTI_INSTANCE && (WC_AUTH_REQUIRED || WC_AUTH_ED25519_KEYS.length > 0) && !AUTH_SIGNER && !WC_AUTH_HMAC_SECRET) {
+      throw new Error("WC_MULTI_INSTANCE with message authentication requires WC_AUTH_ED25519_SECRET or WC_AUTH_HMAC_SECRET");
+    }
+    if (WC_ADMIN_PORT !== undefined) {
+      this.startAdminServer(WC_ADMIN_PORT);
+    }
+    const redisTransport = !this.transport && WC_TRANSPORT === "redis";
+    // Other transports need Redis only for bridge state; with none of it enabled the bridge runs without Redis
+    if (redisTransport || REDIS_STATE) {
+      this.redisPub = this.createRedisClient("redisPub");
+      await this.redisPub.connect();
+      log("info", "Bridge.start", "redisPub.connected");
+    }
+    if (redisTransport) {
+      this.redisSub = this.createRedisClient("redisSub");
+      this.redisBlk = this.createRedisClient("redisBlk");
+      this.redisPair = this.createRedisClient("redisPair");
+      await this.redisSub.connect();
+      log("info", "Bridge.start", "redisSub.connected");
+      await this.redisBlk.connect();
+      log("info", "Bridge.start", "redisBlk.connected");
+      await this.redisPair.connect();
+      log("info", "Bridge.start", "redisPair.connected");
+      this.transport = new RedisTransport(this.redisPub, this.redisBlk, this.redisSub, this.redisPair, this.inboundKeys);
+    } else if (!this.transport) {
+      this.transport = new HttpTransport();
+    }
+    log("info", "Bridge.start", "transport", { transport: this.transport.name, redis: !!this.redisPub });
+
+    if (WC_MULTI_INSTANCE) {
+      if (!WC_PERSIST) throw new Error("WC_MULTI_INSTANCE requires WC_PERSIST");
+      // Control routing between instances goes through their Redis control lists
+      if (!(this.transport instanceof RedisTransport)) throw new Error("WC_MULTI_INSTANCE requires WC_TRANSPORT=redis");
+      await this.claimInstance();
+    }
+    const coreKey = WC_MULTI_INSTANCE ? keyInstanceCore(this.instanceId) : KEY_CORE_STORAGE;
+    this.core = WC_PERSIST
+      ? new Core({ projectId: WC_PROJECT_ID, storage: new RedisKeyValueStorage(this.redisPub, coreKey) })
+      : new Core({ projectId: WC_PROJECT_ID });
+    log("info", "Bridge.start", "core.init", { projectId: WC_PROJECT_ID, persist: WC_PERSIST, coreKey, instance_id: this.instanceId });
+    this.wallet = await WalletKit.init({
+      core: this.core,
+      metadata: {
+        name: "MMWB Wallet",
+        description: "A wallet that delegates signing to a broker.",
+        url: "https://eurmtl.me",
+        icons: ["https://eurmtl.me/static/icons/android-chrome-192x192.png"],
+      },
+    });
+    log("info", "Bridge.start", "wallet.init.done");
+
+    if (WC_PERSIST) {
+      await this.rehydrate();
+    }
+
+    // Start intake of pairing requests and control commands
+    await this.transport.start({
+      dispatch: this.dispatchInbound,
+      failed: (event) => this.publishPairingEvent(event),
+    });
+    log("info", "Bridge.start", "intake.started", { transport: this.transport.name });
+
+    // Wrap async handlers to prevent unhandled rejections from crashing the process
+    const wrap = <T>(label: string, fn: (arg: T) => Promise<void>) => async (arg: T) => {
+      try {
+        await fn.call(this, arg);
+      } catch (e) {
+        log("error", label, "handler_exception", { error: String(e) });
+      }
+    };
+
+    // Proposals continue the trace of the pairing request that announced them; session requests start their own
+    this.wallet.on("session_proposal", wrap("session_proposal", (proposal: SignClientTypes.EventArguments["session_proposal"]) =>
+      withSpan("onSessionProposal", {
+        kind: "server",
+        parent: this.pendingBindings.get(proposal.params.pairingTopic)?.trace,
+        attributes: { "wc.proposal_id": proposal.id, "wc.pairing_topic": proposal.params.pairingTopic, "wc.dapp_url": proposal.params.proposer?.metadata?.url },
+      }, () => this.onSessionProposal(proposal))));
+    this.wallet.on("session_request", wrap("session_request", (event: SignClientTypes.EventArguments["session_request"]) =>
+      withSpan("onSessionRequest", {
+        kind: "server",
+        attributes: { "wc.client_id": event.topic, "wc.request_id": event.id, "rpc.method": event.params?.request?.method, "wc.chain_id": event.params?.chainId },
+      }, () => this.onSessionRequest(event))));
+    this.wallet.on("session_delete", wrap("session_delete", this.onSessionDelete));
+    // Not re-emitted by WalletKit: taken from the sign client and the pairing controller directly
+    this.wallet.engine.signClient.events.on("session_expire", wrap("session_expire", this.onSessionExpire));
+    this.core.pairing.events.on("pairing_expire", wrap("pairing_expire", (e: { topic: string }) => this.onPairingGone(e.topic, "pairing_expired")));
+    this.core.pairing.events.on("pairing_delete", wrap("pairing_delete", (e: { topic: string }) => this.onPairingGone(e.topic, "pairing_deleted")));
+    log("info", "Bridge.start", "wallet.handlers.bound");
+
+    if (WC_PING_INTERVAL_MS > 0 || WC_PAIRING_BINDING_TTL_MS > 0) {
+      this.keepAliveTimer = setInterval(() => {
+        this.keepAlive().catch((e) => log("error", "keepAlive", "failed", { error: String(e) }));
+      }, Math.min(KEEPALIVE_TICK_MS, WC_PING_INTERVAL_MS || KEEPALIVE_TICK_MS));
+      this.keepAliveTimer.unref?.();
+      log("info", "Bridge.start", "keepalive.started", { ping_ms: WC_PING_INTERVAL_MS, binding_ttl_ms: WC_PAIRING_BINDING_TTL_MS });
+    }
+
+    await this.publishPairingEvent({ status: "ready", message: "WalletConnect bridge is ready" });
+    this.ready = true;
+    log("info", "Bridge.start", "exit");
+  }
+
+  // node-redis reconnects on its own; we only pick the backoff and report degraded/recovered transitions
+  private createRedisClient(name: string): RedisClientType {
+    const client: RedisClientType = createClient({
+      url: REDIS_URL,
+      socket: {
+        reconnectStrategy: (retries: number) => {
+          if (this.stopping) return false;
+          const delay = reconnectDelay(retries);
+          log("warn", name, "reconnect", { retries, delay });
+          return delay;
+        },
+      },
+    });
+    client.on("error", (e) => log("error", name, "error", { error: String(e) }));
+    client.on("reconnecting", () => this.markRedisDown(name));
+    client.on("ready", () => this.markRedisUp(name));
+    return client;
+  }
+
+  // Take over an orphaned instance slot (lease expired) or register a new one; a fixed WC_INSTANCE_ID waits for its lease
+  private async claimInstance() {
+    log("info", "claimInstance", "enter", { instance_id: WC_INSTANCE_ID || undefined, ttl: WC_LEASE_TTL_MS });
+    const tryLease = async (id: string) =>
+      (await this.redisPub.set(keyLease(id), this.leaseToken, { NX: true, PX: WC_LEASE_TTL_MS })) === "OK";
+
+    if (WC_INSTANCE_ID) {
+      // The previous holder (e.g. the pod being replaced) keeps it until its lease runs out
+      const until = Date.now() + WC_LEASE_TTL_MS * 2;
+      while (!(await tryLease(WC_INSTANCE_ID))) {
+        if (Date.now() > until) throw new Error(`Instance ${WC_INSTANCE_ID} is held by another process`);
+        log("info", "claimInstance", "waiting_for_lease", { instance_id: WC_INSTANCE_ID });
+        await new Promise((r) => setTimeout(r, 1000));
+      }
+    } else {
+      let adopted: string | undefined;
+      for (const id of Object.keys(await this.redisPub.hGetAll(KEY_INSTANCES))) {
+        if (await tryLease(id)) {
+          adopted = id;
+          break;
+        }
+      }
+      if (adopted) {
+        this.instanceId = adopted;
+        log("info", "claimInstance", "adopted", { instance_id: adopted });
+      } else if (!(await tryLease(this.instanceId))) {
+        throw new Error(`Instance ${this.instanceId} is held by another process`);
+      }
+    }
+
+    this.controlList = controlListFor(this.instanceId);
+    await this.redisPub.hSet(KEY_INSTANCES, this.instanceId, JSON.stringify({
+      hostname: hostname(),
+      pid: process.pid,
+      started_at: new Date().toISOString(),
+    }));
+    this.leaseTimer = setInterval(() => {
+      this.renewLease().catch((e) => log("error", "renewLease", "failed", { error: String(e) }));
+    }, Math.max(1000, Math.floor(WC_LEASE_TTL_MS / 3)));
+    log("info", "claimInstance", "exit", { instance_id: this.instanceId, control: this.controlList });
+  }
+
+  // Losing the lease means another process may have adopted our slot: stop before both serve the same sessions
+  private async renewLease() {
+    if (this.stopping) return;
+    const renewed = await this.redisPub.sendCommand([
+      "EVAL", LEASE_RENEW_LUA, "1", keyLease(this.instanceId), this.leaseToken, String(WC_LEASE_TTL_MS),
+    ]);
+    if (Number(renewed) === 1) return;
+    log("error", "renewLease", "lease_lost", { instance_id: this.instanceId });
+    this.stop("lease_lost")
+      .catch((e) => log("error", "renewLease", "stop_failed", { error: String(e) }))
+      .finally(() => process.exit(1));
+  }
+
+  // Slots without sessions or pairings are dropped; the others wait in the registry for the next replica to adopt them
+  private async releaseInstance() {
+    if (!WC_MULTI_INSTANCE) return;
+    clearInterval(this.leaseTimer);
+    const pairings = this.core?.pairing?.getPairings?.() || [];
+    const empty = this.sessions.size === 0 && this.pairingBindings.size === 0 && pairings.length === 0;
+    log("info", "releaseInstance", "enter", { instance_id: this.instanceId, empty });
+    try {
+      // Atomic with the token check: after losing the lease the slot is someone else's
+      await this.redisPub.sendCommand([
+        "EVAL", LEASE_RELEASE_LUA, "3",
+        keyLease(this.instanceId), KEY_INSTANCES, keyInstanceCore(this.instanceId),
+        this.leaseToken, empty ? "1" : "0", this.instanceId,
+      ]);
+    } catch (e) {
+      log("error", "releaseInstance", "failed", { error: String(e) });
+    }
+  }
+
+  private setOwner = async (topic: string) => {
+    if (!WC_MULTI_INSTANCE) return;
+    try {
+      await this.redisPub.hSet(KEY_OWNERS, topic, this.instanceId);
+    } catch (e) {
+      log("error", "setOwner", "persist_failed", { topic, error: String(e) });
+    }
+  };
+
+  private dropOwner = async (topic: string) => {
+    if (!WC_MULTI_INSTANCE) return;
+    try {
+      await this.redisPub.hDel(KEY_OWNERS, topic);
+    } catch (e) {
+      log("error", "dropOwner", "persist_failed", { topic, error: String(e) });
+    }
+  };
+
+  // In-flight sign requests by request_id, so cancel_sign_request reaches the instance waiting on the broker.
+  // ttlMs while in flight (outlives the request by a margin, in case we die before removing it), undefined once done.
+  private setRequestOwner = async (requestId: string, ttlMs?: number) => {
+    if (!WC_MULTI_INSTANCE) return;
+    try {
+      if (ttlMs !== undefined) await this.redisPub.set(keyRequest(requestId), this.instanceId, { PX: ttlMs });
+      else await this.redisPub.del(keyRequest(requestId));
+    } catch (e) {
+      log("error", "setRequestOwner", "persist_failed", { requestId, ttlMs, error: String(e) });
+    }
+  };
+
+  private markRedisDown(name: string) {
+    if (this.stopping || this.redisDown.has(name)) return;
+    this.redisDown.set(name, Date.now());
+    log("warn", "markRedisDown", "client_down", { client: name, down: [...this.redisDown.keys()] });
+    if (this.redisDown.size > 1) return;
+    this.degradedSince = Date.now();
+    // Queued by node-redis until redisPub is connected, so it may arrive only after the outage
+    this.publishPairingEvent({ status: "degraded", clients: [name], message: "Redis connection lost, reconnecting" })
+      .catch((e) => log("error", "markRedisDown", "publish_failed", { error: String(e) }));
+  }
+
+  private markRedisUp(name: string) {
+    if (!this.redisDown.has(name)) return;
+    const since = this.redisDown.get(name)!;
+    this.redisDown.delete(name);
+    log("info", "markRedisUp", "client_up", { client: name, down_ms: Date.now() - since, still_down: [...this.redisDown.keys()] });
+    if (this.redisDown.size > 0 || this.stopping) return;
+    this.publishPairingEvent({ status: "recovered", down_ms: Date.now() - this.degradedSince, message: "Redis connection restored" })
+      .catch((e) => log("error", "markRedisUp", "publish_failed", { error: String(e) }));
+  }
+
+  // SIGTERM/SIGINT: stop consuming, give in-flight sign requests a grace period, fail the rest, close Redis
+  async stop(signal: string) {
+    if (this.stopping) return;
+    log("info", "Bridge.stop", "enter", { signal, inflight: this.inflight.size });
+    this.stopping = true;
+    this.ready = false;
+
+    try {
+      await this.publishPairingEvent({
+        status: "stopping",
+        signal,
+        inflight: this.inflight.size,
+        message: "WalletConnect bridge is shutting down",
+      });
+    } catch (e) {
+      log("error", "Bridge.stop", "publish_failed", { error: String(e) });
+    }
+
+    try {
+      await this.transport?.stop();
+    } catch (e) {
+      log("error", "Bridge.stop", "transport_stop_failed", { error: String(e) });
+    }
+    log("info", "Bridge.stop", "intake.stopped");
+
+    const waitInflight = async (ms: number) => {
+      const until = Date.now() + ms;
+      while (this.inflight.size > 0 && Date.now() < until) await new Promise((r) => setTimeout(r, 100));
+    };
+    await waitInflight(WC_SHUTDOWN_GRACE_MS);
+    if (this.inflight.size > 0) {
+      this.cancelInflight(() => true, "shutdown", { code: -32000, message: "Wallet bridge is shutting down, retry later." });
+      // Let the handlers send their JSON-RPC errors and sign_rejected events
+      await waitInflight(5_000);
+    }
+    log("info", "Bridge.stop", "drained", { left: this.inflight.size });
+
+    for (const pendingBinding of this.pendingBindings.values()) clearTimeout(pendingBinding.timer);
+    clearInterval(this.keepAliveTimer);
+    await this.releaseInstance();
+    this.admin?.close();
+    await this.transport?.close();
+    await otlpExporter?.shutdown();
+    for (const [name, client] of [["redisSub", this.redisSub], ["redisBlk", this.redisBlk], ["redisPub", this.redisPub]] as const) {
+      try {
+        if (client?.isOpen) await client.close();
+      } catch (e) {
+        log("warn", "Bridge.stop", "close_failed", { client: name, error: String(e) });
+        client.destroy();
+      }
+    }
+    log("info", "Bridge.stop", "exit");
+  }
+
+  // Only the Redis clients this setup created are checked; the transport reports its own intake state
+  private health = () => {
+    const redis: Record<string, boolean> = {};
+    for (const [name, client] of [["pub", this.redisPub], ["sub", this.redisSub], ["blk", this.redisBlk], ["pair", this.redisPair]] as const) {
+      if (client) redis[name] = client.isReady;
+    }
+    const intake = this.transport?.health() ?? {};
+    const checks = {
+      redis,
+      wallet: !!this.wallet,
+      transport: this.transport?.name,
+      ...intake,
+    };
+    const ok = Object.values(redis).every(Boolean) && checks.wallet && !!this.transport && Object.values(intake).every(Boolean);
+    return { ok, checks };
+  };
+
+  // Read-only admin endpoints for probes and scraping
+  private startAdminServer(port: number) {
+    this.admin = createServer((req, res) => {
+      const send = (status: number, body: unknown, contentType = "application/json") => {
+        res.writeHead(status, { "content-type": contentType });
+        res.end(typeof body === "string" ? body : JSON.stringify(body));
+      };
+      try {
+        const path = (req.url || "/").split("?")[0];
+        if (req.method !== "GET") return send(405, { error: "method not allowed" });
+        switch (path) {
+          case "/healthz": {
+            const h = this.health();
+            return send(h.ok ? 200 : 503, { status: h.ok ? "ok" : "unhealthy", ...h.checks });
+          }
+          case "/readyz": {
+            const h = this.health();
+            const ok = h.ok && this.ready;
+            return send(ok ? 200 : 503, { status: ok ? "ready" : "not_ready", ready: this.ready, ...h.checks });
+          }
+          case "/metrics":
+            return send(200, metrics.render({
+              wc_active_sessions: { help: "Sessions currently tracked by the bridge.", value: this.sessions.size },
+              wc_pending_pairings: { help: "Pairing requests waiting for their session proposal.", value: this.pendingBindings.size },
+            }), "text/plain; version=0.0.4");
+          case "/sessions":
+            return send(200, this.wallet ? this.controlListSessions({}) : []);
+          default:
+            return send(404, { error: "not found" });
+        }
+      } catch (e) {
+        log("error", "adminServer", "request_error", { url: req.url, error: String(e) });
+        send(500, { error: String(e) });
+      }
+    });
+    this.admin.on("error", (e) => log("error", "adminServer", "error", { error: String(e) }));
+    this.admin.listen(port, WC_ADMIN_HOST, () => log("info", "adminServer", "listening", { host: WC_ADMIN_HOST, port }));
+  }
+
+  // Restore sessions/pairing bindings from Redis and reconcile them with what WalletKit still considers active
+  private async rehydrate() {
+    log("info", "rehydrate", "enter", { sessionsKey: KEY_SESSIONS, pairingsKey: KEY_PAIRINGS });
+    const storedSessions = await this.redisPub.hGetAll(KEY_SESSIONS);
+    const storedPairings = await this.redisPub.hGetAll(KEY_PAIRINGS);
+    const active: Record<string, SessionTypes.Struct> = this.wallet.getActiveSessions() || {};
+    const pairingTopics = new Set<string>((this.core.pairing.getPairings() || []).map((p: any) => p.topic));
+    // Multi-instance: the shared hashes hold every replica's records, only ours are reconciled here
+    const owners = WC_MULTI_INSTANCE ? await this.redisPub.hGetAll(KEY_OWNERS) : {};
+    const mine = (topic: string) => !WC_MULTI_INSTANCE || owners[topic] === this.instanceId;
+    log("debug", "rehydrate", "loaded", {
+      stored_sessions: Object.keys(storedSessions).length,
+      stored_pairings: Object.keys(storedPairings).length,
+      active_sessions: Object.keys(active).length,
+      active_pairings: pairingTopics.size,
+    });
+
+    for (const [topic, raw] of Object.entries(storedSessions)) {
+      if (!mine(topic)) continue;
+      if (!active[topic]) {
+        log("info", "rehydrate", "session.stale", { topic });
+        await this.redisPub.hDel(KEY_SESSIONS, topic);
+        await this.dropOwner(topic);
+        continue;
+      }
+      try {
+        this.sessions.set(topic, JSON.parse(raw as string));
+      } catch (e) {
+        log("warn", "rehydrate", "session.parse_error", { topic, error: String(e) });
+        await this.redisPub.hDel(KEY_SESSIONS, topic);
+      }
+    }
+
+    // Sessions WalletKit kept but we have no record for: recover address from approved accounts
+    for (const [topic, session] of Object.entries(active)) {
+      if (this.sessions.has(topic)) continue;
+      const accounts: string[] = Object.values(session.namespaces || {}).flatMap((ns) => ns.accounts || []);
+      // "<namespace>:<reference>:<address>"
+      const addresses: Record<string, string> = {};
+      for (const a of accounts) {
+        const [ns, , addr] = a.split(":");
+        addresses[ns] ??= addr;
+      }
+      const address = primaryAddress(addresses);
+      if (!address) {
+        log("warn", "rehydrate", "session.unbound", { topic });
+        continue;
+      }
+      const chains = Array.from(new Set(accounts.map((a) => a.split(":").slice(0, 2).join(":"))));
+      const meta = session.peer?.metadata;
+      await this.saveSession(topic, { address, addresses, accounts: accountsByChain(accounts), dapp: { name: meta?.name, url: meta?.url }, chains });
+      log("info", "rehydrate", "session.recovered", { topic, address });
+    }
+
+    for (const [pairingTopic, raw] of Object.entries(storedPairings)) {
+      if (!mine(pairingTopic)) continue;
+      if (!pairingTopics.has(pairingTopic)) {
+        log("info", "rehydrate", "pairing.stale", { pairingTopic });
+        await this.redisPub.hDel(KEY_PAIRINGS, pairingTopic);
+        await this.dropOwner(pairingTopic);
+        continue;
+      }
+      try {
+        this.pairingBindings.set(pairingTopic, JSON.parse(raw as string));
+      } catch (e) {
+        log("warn", "rehydrate", "pairing.parse_error", { pairingTopic, error: String(e) });
+        await this.redisPub.hDel(KEY_PAIRINGS, pairingTopic);
+      }
+    }
+    log("info", "rehydrate", "exit", { sessions: this.sessions.size, pairings: this.pairingBindings.size });
+  }
+
+  private saveSession = async (topic: string, info: SessionInfo) => {
+    this.sessions.set(topic, info);
+    if (!WC_PERSIST) return;
+    try {
+      await this.redisPub.hSet(KEY_SESSIONS, topic, JSON.stringify(info));
+      await this.setOwner(topic);
+    } catch (e) {
+      log("error", "saveSession", "persist_failed", { topic, error: String(e) });
+    }
+  };
+
+  private deleteSession = async (topic: string) => {
+    this.sessions.delete(topic);
+    if (!WC_PERSIST) return;
+    try {
+      await this.redisPub.hDel(KEY_SESSIONS, topic);
+      await this.dropOwner(topic);
+    } catch (e) {
+      log("error", "deleteSession", "persist_failed", { topic, error: String(e) });
+    }
+  };
+
+  private saveBinding = async (pairingTopic: string, binding: PairingBinding) => {
+    const bind = { ...binding, bound_at: Date.now() };
+    this.pairingBindings.set(pairingTopic, bind);
+    if (!WC_PERSIST) return;
+    try {
+      await this.redisPub.hSet(KEY_PAIRINGS, pairingTopic, JSON.stringify(bind));
+      await this.setOwner(pairingTopic);
+    } catch (e) {
+      log("error", "saveBinding", "persist_failed", { pairingTopic, error: String(e) });
+    }
+  };
+
+  private deleteBinding = async (pairingTopic: string) => {
+    this.pairingBindings.delete(pairingTopic);
+    if (!WC_PERSIST) return;
+    try {
+      await this.redisPub.hDel(KEY_PAIRINGS, pairingTopic);
+      await this.dropOwner(pairingTopic);
+    } catch (e) {
+      log("error", "deleteBinding", "persist_failed", { pairingTopic, error: String(e) });
+    }
+  };
+
+  private publishPairingEvent = async (event: any) => {
+    const evt = { ...event, instance_id: this.instanceId };
+    log("debug", "publishPairingEvent", "enter", { evt });
+    const ref = await this.transport.publish(CH_PAIRING_EVENTS, JSON.stringify(evt), { correlation_id: evt?.correlation_id ?? uuidv4(), ...traceHeaders() });
+    log("info", "publishPairingEvent", "queued", { list: CH_PAIRING_EVENTS, transport: this.transport.name, ref });
+    log("debug", "publishPairingEvent", "exit");
+  };
+
+  // Append-only: XADD with auto ids (ms timestamps), trimmed by MINID only when a retention is set
+  private audit = async (type: string, entry: { client_id?: string; address?: string } & Record<string, unknown>) => {
+    if (!WC_AUDIT) return;
+    const trim = WC_AUDIT_RETENTION_MS > 0 ? ["MINID", "~", String(Date.now() - WC_AUDIT_RETENTION_MS)] : [];
+    try {
+      const id = await this.redisPub.sendCommand([
+        "XADD", KEY_AUDIT, ...trim, "*",
+        "type", type,
+        "client_id", entry.client_id ?? "",
+        "address", entry.address ?? "",
+        "instance_id", this.instanceId,
+        "data", JSON.stringify(entry),
+      ]);
+      log("debug", "audit", "appended", { type, id: String(id) });
+    } catch (e) {
+      log("error", "audit", "append_failed", { type, error: String(e) });
+    }
+  };
+
+  // { address?, client_id?, from?, to?, limit?, cursor? }: from/to as ISO time or ms; pass `next` back as cursor to continue
+  private controlAuditQuery = async (msg: any) => {
+    if (!this.redisPub) throw new InvalidRequestError("Audit journal needs Redis");
+    const toMs = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : typeof v === "number" ? v : Date.parse(String(v)));
+    const from = toMs(msg?.from);
+    const to = toMs(msg?.to);
+    if (Number.isNaN(from) || Number.isNaN(to)) throw new InvalidRequestError("from/to must be ISO timestamps or ms");
+    const limit = Math.min(Math.max(1, Number(msg?.limit || 100)), 1000);
+    let start = msg?.cursor ? `(${msg.cursor}` : from !== undefined ? String(from) : "-";
+    const end = to !== undefined ? String(to) : "+";
+
+    const entries: Record<string, unknown>[] = [];
+    let scanned = 0;
+    let next: string | undefined;
+    while (entries.length < limit) {
+      const batch: any[] = await this.redisPub.sendCommand(["XRANGE", KEY_AUDIT, start, end, "COUNT", "500"]);
+      if (!batch || batch.length === 0) {
+        next = undefined;
+        break;
+      }
+      for (const [id, fields] of batch) {
+        scanned++;
+        next = String(id);
+        const f: Record<string, string> = {};
+        for (let i = 0; i < fields.length; i += 2) f[String(fields[i])] = String(fields[i + 1]);
+        if (msg?.address && f.address !== msg.address) continue;
+        if (msg?.client_id && f.client_id !== msg.client_id) continue;
+        let data: unknown = f.data;
+        try {
+          data = JSON.parse(f.data);
+        } catch {}
+        entries.push({ id: next, ts: new Date(Number(next.split("-")[0])).toISOString(), type: f.type, instance_id: f.instance_id, data });
+        if (entries.length >= limit) break;
+      }
+      if (batch.length < 500 && entries.length < limit) {
+        next = undefined;
+        break;
+      }
+      if (scanned >= WC_AUDIT_QUERY_SCAN_MAX) break;
+      start = `(${next}`;
+    }
+    log("info", "controlAuditQuery", "done", { returned: entries.length, scanned, next });
+    return { entries, next };
+  };
+
+  // Shared inbound lists, plus this instance's own control list in multi-instance mode
+  private inboundKeys = () =>
+    WC_MULTI_INSTANCE ? [this.controlList, CH_PAIRING_REQUEST, CH_CONTROL] : [CH_PAIRING_REQUEST, CH_CONTROL];
+
+  // One consumer span per inbound message, continuing the producer's trace when it sent a traceparent
+  private dispatchInbound = (key: string, body: string, headers?: Record<string, string>) =>
+    withSpan(key === CH_PAIRING_REQUEST ? "onPairingRequest" : "onControlCommand", {
+      kind: "consumer",
+      parent: parseTraceparent(headers?.traceparent, headers?.tracestate),
+      attributes: { "messaging.destination.name": key, "wc.instance_id": this.instanceId },
+    }, () => this.handleInbound(key, body, headers));
+
+  private handleInbound = async (key: string, body: string, headers?: Record<string, string>) => {
+    const authError = await this.authenticate(body, headers || {});
+    if (authError) {
+      log("warn", "dispatchInbound", "auth_rejected", { key, error: authError, key_id: headers?.["x-key-id"] });
+      let correlation_id: string | undefined = headers?.correlation_id;
+      try {
+        correlation_id = JSON.parse(body)?.correlation_id ?? correlation_id;
+      } catch {}
+      if (key === CH_PAIRING_REQUEST) metrics.inc("wc_pairing_requests_total", { outcome: "unauthenticated" });
+      await this.publishPairingEvent({ status: "failed", correlation_id, source: key, error: `Authentication failed: ${authError}` });
+      return;
+    }
+    try {
+      if (key === CH_CONTROL || key === this.controlList) {
+        // Messages on our own control list were already routed here: never forward them again
+        await this.onControlCommand(body, headers, key !== CH_CONTROL);
+      } else {
+        await this.onPairingRequest(body, headers);
+      }
+    } catch (e) {
+      // Left pending for redelivery: release the nonce so the retry authenticates again
+      if (headers?.["x-signature"]) {
+        await this.redisPub.del(keyNonce(headers["x-nonce"])).catch((err) => log("warn", "dispatchInbound", "nonce_release_failed", { error: String(err) }));
+      }
+      throw e;
+    }
+  };
+
+  // Streams redeliver unacknowledged entries: failures a retry may fix are thrown so the entry stays pending
+  private retryable = (e: unknown) =>
+    WC_QUEUE_MODE === "streams" && this.transport instanceof RedisTransport && !(e instanceof InvalidRequestError) && !(e instanceof SyntaxError);
+
+  // Unsigned messages pass unless WC_AUTH_REQUIRED; signed ones must verify and carry an unused nonce
+  private authenticate = async (body: string, headers: Record<string, string>): Promise<string | undefined> => {
+    if (!headers["x-signature"]) return WC_AUTH_REQUIRED ? "missing signature" : undefined;
+    const error = verifySignature(body, headers);
+    if (error) return error;
+    // Kept for twice the skew window: older timestamps are rejected anyway
+    const fresh = await this.redisPub.set(keyNonce(headers["x-nonce"]), "1", { NX: true, PX: WC_AUTH_MAX_SKEW_MS * 2 });
+    return fresh === "OK" ? undefined : "nonce already used";
+  };
+
+  private onPairingRequest = async (payload: string, headers?: Record<string, string>) => {
+    log("info", "onPairingRequest", "enter", { payload });
+    let correlation_id: string | undefined;
+    let pairingTopic: string | undefined;
+    let paired = false;
+    try {
+      const msg = JSON.parse(payload);
+      log("debug", "onPairingRequest", "parsed", { msg });
+      const wc_uri: string | undefined = msg?.wc_uri;
+      // `address` is the Stellar account(s) (legacy); `addresses` binds per namespace or chain, one address or a list
+      const accounts = parseAccountMap(msg?.address, msg?.addresses);
+      const addresses = primaryAddresses(accounts);
+      const address = primaryAddress(addresses);
+      const user_info = msg?.user_info;
+      const networks: string[] | undefined = Array.isArray(msg?.networks)
+        ? msg.networks.map((n: string) => toChainId(String(n)))
+        : undefined;
+      correlation_id = msg?.correlation_id ?? headers?.correlation_id ?? uuidv4();
+      log("debug", "onPairingRequest", "extracted", { wc_uri, address, accounts, has_user_info: !!user_info, networks, correlation_id });
+      if (!wc_uri || !address) {
+        metrics.inc("wc_pairing_requests_total", { outcome: "invalid" });
+        return;
+      }
+
+      const invalid = Object.entries(accounts).filter(([key, list]) => {
+        const h = CHAIN_HANDLERS[key.split(":")[0]];
+        return h && list.some((a) => !h.isValidAddress(a));
+      });
+      if (invalid.length > 0) {
+        log("warn", "onPairingRequest", "bad_address", { invalid, correlation_id });
+        await this.publishPairingEvent({
+          status: "failed",
+          correlation_id,
+          address,
+          user_info,
+          error: `Invalid address for namespace: ${invalid.map(([key]) => key).join(", ")}`,
+        });
+        metrics.inc("wc_pairing_requests_total", { outcome: "invalid" });
+        return;
+      }
+
+      pairingTopic = parsePairingTopic(wc_uri);
+      if (!pairingTopic) {
+        log("warn", "onPairingRequest", "bad_uri", { wc_uri, correlation_id });
+        await this.publishPairingEvent({
+          status: "failed",
+          correlation_id,
+          address,
+          user_info,
+          error: "Invalid wc_uri",
+        });
+        metrics.inc("wc_pairing_requests_total", { outcome: "invalid" });
+        return;
+      }
+
+      this.bindPending(pairingTopic, { address, addresses, accounts, user_info, networks, correlation_id: correlation_id! });
+      await this.core.pairing.pair({ uri: wc_uri });
+      paired = true;
+      log("info", "onPairingRequest", "paired", { wc_uri, pairingTopic, correlation_id });
+
+      await this.publishPairingEvent({
+        status: "queued",
+        correlation_id,
+        pairing_topic: pairingTopic,
+        address,
+        addresses,
+        accounts,
+        user_info,
+        message: "Pairing request received",
+      });
+      metrics.inc("wc_pairing_requests_total", { outcome: "queued" });
+      log("info", "onPairingRequest", "exit.success");
+    } catch (e) {
+      const pending = pairingTopic ? this.takePending(pairingTopic) : undefined;
+      // Once paired, a redelivery would pair the same URI twice
+      if (!paired && this.retryable(e)) {
+        log("warn", "onPairingRequest", "retry", { error: String(e), correlation_id });
+        throw e;
+      }
+      log("error", "onPairingRequest", "exception", { error: String(e), correlation_id });
+      metrics.inc("wc_pairing_requests_total", { outcome: "failed" });
+      await this.publishPairingEvent({
+        status: "failed",
+        correlation_id,
+        pairing_topic: pairingTopic,
+        address: pending?.address,
+        user_info: pending?.user_info,
+        error: String(e),
+      });
+    }
+  };
+
+  // Remember which address a pairing belongs to until its session proposal arrives
+  private bindPending = (pairingTopic: string, bind: PairingBinding & { correlation_id: string }) => {
+    const prev = this.takePending(pairingTopic);
+    if (prev) {
+      log("warn", "bindPending", "replaced", { pairingTopic, prev_correlation_id: prev.correlation_id });
+    }
+    const timer = setTimeout(() => {
+      const expired = this.takePending(pairingTopic);
+      if (!expired) return;
+      log("warn", "bindPending", "expired", { pairingTopic, correlation_id: expired.correlation_id });
+      this.publishPairingEvent({
+        status: "expired",
+        correlation_id: expired.correlation_id,
+        pairing_topic: pairingTopic,
+        address: expired.address,
+        user_info: expired.user_info,
+        reason: "no_proposal",
+        message: "No session proposal received for pairing",
+      }).catch((e) => log("error", "bindPending", "publish_failed", { error: String(e) }));
+    }, WC_PROPOSAL_TIMEOUT_MS);
+    timer.unref?.();
+    // The proposal arrives through WalletKit, outside this trace: its span is parented here explicitly
+    this.pendingBindings.set(pairingTopic, { ...bind, timer, trace: activeSpan()?.context });
+    log("debug", "bindPending", "bound", { pairingTopic, correlation_id: bind.correlation_id, pending: this.pendingBindings.size });
+  };
+
+  private takePending = (pairingTopic: string): PendingBinding | undefined => {
+    const pending = this.pendingBindings.get(pairingTopic);
+    if (!pending) return undefined;
+    clearTimeout(pending.timer);
+    this.pendingBindings.delete(pairingTopic);
+    return pending;
+  };
+
+  // Backend commands on wc-control; replies follow the RedisRPC.call convention (RPUSH to reply_to, correlation_id echoed)
+  private onControlCommand = async (payload: string, headers?: Record<string, string>, routed = false) => {
+    log("info", "onControlCommand", "enter", { payload, routed });
+    let replyTo: string | undefined;
+    let correlation_id: string | undefined;
+    let command: string | undefined;
+    try {
+      const msg = JSON.parse(payload);
+      command = msg?.command;
+      replyTo = msg?.reply_to ?? msg?.replyTo ?? headers?.reply_to;
+      correlation_id = msg?.correlation_id ?? msg?.cid ?? headers?.correlation_id;
+      log("debug", "onControlCommand", "parsed", { command, replyTo, correlation_id });
+
+      if (WC_MULTI_INSTANCE && !routed) {
+        const owner = await this.controlOwner(msg);
+        if (owner) {
+          // The owner replies to reply_to itself
+          await this.forwardControl(owner, payload, headers);
+          log("info", "onControlCommand", "exit.forwarded", { command, owner, correlation_id });
+          return;
+        }
+      }
+
+      let result: unknown;
+      switch (command) {
+        case "disconnect_session":
+          result = await this.controlDisconnectSession(msg);
+          if (WC_MULTI_INSTANCE && !msg?.topic) {
+            result = { ...(result as any), forwarded: await this.forwardByAddress(msg) };
+          }
+          break;
+        case "disconnect_pairing":
+          result = await this.controlDisconnectPairing(msg);
+          break;
+        case "list_sessions":
+          result = WC_MULTI_INSTANCE ? await this.listAllSessions(msg) : this.controlListSessions(msg);
+          break;
+        case "extend_session":
+          result = await this.controlExtendSession(msg);
+          break;
+        case "emit_event":
+          result = await this.controlEmitEvent(msg);
+          break;
+        case "cancel_sign_request":
+          result = this.controlCancelSignRequest(msg);
+          break;
+        case "audit_query":
+          result = await this.controlAuditQuery(msg);
+          break;
+        case "add_accounts":
+          result = await this.controlUpdateAccounts(msg, "add");
+          break;
+        case "remove_accounts":
+          result = await this.controlUpdateAccounts(msg, "remove");
+          break;
+        default:
+          throw new InvalidRequestError(`Unknown command: ${command}`);
+      }
+      log("info", "onControlCommand", "exit.success", { command, correlation_id });
+      await this.replyControl(replyTo, correlation_id, { result });
+    } catch (e) {
+      if (this.retryable(e)) {
+        log("warn", "onControlCommand", "retry", { command, correlation_id, error: String(e) });
+        throw e;
+      }
+      log("error", "onControlCommand", "exception", { command, correlation_id, error: String(e) });
+      await this.replyControl(replyTo, correlation_id, { error: String(e) });
+    }
+  };
+
+  // Another live instance this command belongs to: explicit instance_id, else the recorded owner of its request or topic
+  private controlOwner = async (msg: any): Promise<string | undefined> => {
+    // The journal is shared: any instance can answer, also for sessions of instances that are gone
+    if (msg?.command === "audit_query") return undefined;
+    let owner: string | undefined = msg?.instance_id;
+    if (!owner && msg?.command === "cancel_sign_request" && msg?.request_id && !msg?.client_id) {
+      if (this.inflight.has(msg.request_id)) return undefined;
+      owner = (await this.redisPub.get(keyRequest(msg.request_id))) ?? undefined;
+    } else if (!owner) {
+      const topic: string | undefined = msg?.topic ?? msg?.pairing_topic ?? msg?.client_id;
+      if (!topic || this.sessions.has(topic) || this.pairingBindings.has(topic)) return undefined;
+      owner = (await this.redisPub.hGet(KEY_OWNERS, topic)) ?? undefined;
+    }
+    if (!owner || owner === this.instanceId) return undefined;
+    if (!(await this.redisPub.exists(keyLease(owner)))) {
+      throw new InvalidRequestError(`Instance ${owner} is not running`);
+    }
+    return owner;
+  };
+
+  private forwardControl = async (owner: string, payload: string, headers?: Record<string, string>) => {
+    const list = controlListFor(owner);
+    // Re-signed by us when we have a key (always the case when inbound is verified, see start): the sender's nonce was already used up on this instance
+    const ref = await pushToQueue(this.redisPub, list, encodeMessage(CH_CONTROL, payload, { ...headers, ...traceHeaders() }, !!(AUTH_SIGNER || WC_AUTH_HMAC_SECRET)));
+    log("info", "forwardControl", "queued", { list, ref });
+  };
+
+  // Sessions of the address owned by other instances, read from the shared sessions hash
+  private remoteSessions = async (address?: string) => {
+    const stored = await this.redisPub.hGetAll(KEY_SESSIONS);
+    const owners = await this.redisPub.hGetAll(KEY_OWNERS);
+    const found: { topic: string; owner: string; info: SessionInfo }[] = [];
+    for (const [topic, raw] of Object.entries(stored)) {
+      const owner = owners[topic];
+      if (!owner || owner === this.instanceId) continue;
+      try {
+        const info: SessionInfo = JSON.parse(raw as string);
+        if (address && info.address !== address && !Object.values(info.addresses || {}).includes(address)) continue;
+        found.push({ topic, owner, info });
+      } catch (e) {
+        log("warn", "remoteSessions", "parse_error", { topic, error: String(e) });
+      }
+    }
+    return found;
+  };
+
+  // disconnect_session by address: one forwarded command per remote session, without reply_to
+  private forwardByAddress = async (msg: any) => {
+    const forwarded: string[] = [];
+    for (const { topic, owner } of await this.remoteSessions(msg.address)) {
+      const body = JSON.stringify({ command: msg.command, topic, reason: msg?.reason });
+      await this.forwardControl(owner, body);
+      forwarded.push(topic);
+    }
+    return forwarded;
+  };
 
-    if (!resolved) {
-      log("error", "RedisRPC.call", "timeout", { cid, replyTo });
-      throw new Error("sign timeout");
+  private listAllSessions = async (msg: any) => {
+    const local = this.controlListSessions(msg).map((s) => ({ ...s, instance_id: this.instanceId }));
+    const remote = (await this.remoteSessions(msg?.address)).map(({ topic, owner, info }) => ({
+      client_id: topic,
+      address: info.address,
+      addresses: info.addresses,
+      chains: info.chains,
+      user_info: info.user_info,
+      dapp_info: info.dapp,
+      instance_id: owner,
+    }));
+    return [...local, ...remote];
+  };
+
+  private replyControl = async (replyTo: string | undefined, correlation_id: string | undefined, body: Record<string, unknown>) => {
+    if (!replyTo) {
+      log("debug", "replyControl", "no_reply_to", { correlation_id });
+      return;
     }
-    log("info", "RedisRPC.call", "resolve", { cid });
-    return result;
-  }
-}
+    await this.transport.reply(replyTo, JSON.stringify(body), { correlation_id: correlation_id ?? uuidv4() });
+    log("info", "replyControl", "sent", { replyTo, correlation_id });
+  };
 
-class Bridge {
-  private core!: any;
-  private wallet!: any;
-  private redisPub!: RedisClientType;
-  private redisSub!: RedisClientType;
-  private redisBlk!: RedisClientType;
-  private redisPair!: RedisClientType;
-  private rpc!: RedisRPC;
+  // { topic } or { address } (all sessions of that address), optional { reason }
+  private controlDisconnectSession = async (msg: any) => {
+    const topics: string[] = msg?.topic
+      ? [msg.topic]
+      : msg?.address
+        ? Array.from(this.sessions.entries())
+          .filter(([, s]) => s.address === msg.address || Object.values(s.addresses || {}).includes(msg.address))
+          .map(([t]) => t)
+        : [];
+    if (!msg?.topic && !msg?.address) throw new InvalidRequestError("topic or address required");
+    const message: string = msg?.reason || "Session disconnected by wallet";
+    for (const topic of topics) {
+      await this.endSession(topic, message);
+    }
+    return { disconnected: topics };
+  };
 
-  private sessions = new Map<string, { address: string; user_info?: Record<string, unknown>; dapp?: { name?: string; url?: string } }>();
-  private pairingBindings = new Map<string, { address: string; user_info?: Record<string, unknown> }>();
+  // { pairing_topic }: disconnects the pairing, every session opened over it and drops the cached binding
+  private controlDisconnectPairing = async (msg: any) => {
+    const pairingTopic: string | undefined = msg?.pairing_topic;
+    if (!pairingTopic) throw new InvalidRequestError("pairing_topic required");
+    const active: Record<string, SessionTypes.Struct> = this.wallet.getActiveSessions() || {};
+    const topics = Object.values(active).filter((s) => s.pairingTopic === pairingTopic).map((s) => s.topic);
+    const message: string = msg?.reason || "Pairing disconnected by wallet";
+    for (const topic of topics) {
+      await this.endSession(topic, message);
+    }
+    await this.core.pairing.disconnect({ topic: pairingTopic });
+    this.takePending(pairingTopic);
+    await this.deleteBinding(pairingTopic);
+    log("info", "controlDisconnectPairing", "disconnected", { pairingTopic, sessions: topics });
+    return { pairing_topic: pairingTopic, disconnected: topics };
+  };
 
-  async start() {
-    log("info", "Bridge.start", "enter", { REDIS_URL });
-    this.redisPub = createClient({ url: REDIS_URL });
-    this.redisSub = createClient({ url: REDIS_URL });
-    this.redisBlk = createClient({ url: REDIS_URL });
-    this.redisPair = createClient({ url: REDIS_URL });
-    this.redisPub.on("error", (e) => log("error", "redisPub", "error", { error: String(e) }));
-    this.redisSub.on("error", (e) => log("error", "redisSub", "error", { error: String(e) }));
-    this.redisBlk.on("error", (e) => log("error", "redisBlk", "error", { error: String(e) }));
-    this.redisPair.on("error", (e) => log("error", "redisPair", "error", { error: String(e) }));
-    await this.redisPub.connect();
-    log("info", "Bridge.start", "redisPub.connected");
-    await this.redisSub.connect();
-    log("info", "Bridge.start", "redisSub.connected");
-    await this.redisBlk.connect();
-    log("info", "Bridge.start", "redisBlk.connected");
-    await this.redisPair.connect();
-    log("info", "Bridge.start", "redisPair.connected");
-
-    this.rpc = new RedisRPC(this.redisPub, this.redisBlk, this.redisSub);
-    log("debug", "Bridge.start", "rpc.created");
-
-    this.core = new Core({ projectId: WC_PROJECT_ID });
-    log("info", "Bridge.start", "core.init", { projectId: WC_PROJECT_ID });
-    this.wallet = await WalletKit.init({
-      core: this.core,
-      metadata: {
-        name: "MMWB Wallet",
-        description: "A wallet that delegates signing to a broker.",
-        url: "https://eurmtl.me",
-        icons: ["https://eurmtl.me/static/icons/android-chrome-192x192.png"],
-      },
+  // Optional { address } filter
+  private controlListSessions = (msg: any) => {
+    const active: Record<string, SessionTypes.Struct> = this.wallet.getActiveSessions() || {};
+    return Array.from(this.sessions.entries())
+      .filter(([, s]) => !msg?.address || s.address === msg.address || Object.values(s.addresses || {}).includes(msg.address))
+      .map(([topic, s]) => ({
+        client_id: topic,
+        pairing_topic: active[topic]?.pairingTopic,
+        address: s.address,
+        addresses: s.addresses,
+        accounts: s.accounts,
+        chains: s.chains,
+        user_info: s.user_info,
+        dapp_info: s.dapp,
+        verify: s.verify,
+        expiry: active[topic]?.expiry,
+      }));
+  };
+
+  // { topic }
+  private controlExtendSession = async (msg: any) => {
+    const topic: string | undefined = msg?.topic;
+    if (!topic || !this.sessions.has(topic)) throw new InvalidRequestError(`Unknown session: ${topic}`);
+    // Not awaiting peer acknowledgement: it would block the shared consumer loop
+    await this.wallet.extendSession({ topic });
+    const expiry = this.wallet.getActiveSessions()?.[topic]?.expiry;
+    log("info", "controlExtendSession", "extended", { topic, expiry });
+    return { client_id: topic, expiry };
+  };
+
+  // { topic, event: { name, data }, chain_id? } e.g. name "accountsChanged"
+  private controlEmitEvent = async (msg: any) => {
+    const topic: string | undefined = msg?.topic;
+    const info = topic ? this.sessions.get(topic) : undefined;
+    if (!topic || !info) throw new InvalidRequestError(`Unknown session: ${topic}`);
+    if (!msg?.event?.name) throw new InvalidRequestError("event.name required");
+    const chainId = msg?.chain_id ? toChainId(msg.chain_id) : (info.chains?.[0] ?? "stellar:pubnet");
+    await this.wallet.emitSessionEvent({
+      topic,
+      event: { name: msg.event.name, data: msg.event.data },
+      chainId,
     });
-    log("info", "Bridge.start", "wallet.init.done");
+    log("info", "controlEmitEvent", "emitted", { topic, name: msg.event.name, chainId });
+    return { client_id: topic, event: msg.event.name, chain_id: chainId };
+  };
 
-    // Start consumer loop for pairing requests list
-    this.consumePairingRequests().catch((e) => log("error", "consumePairingRequests", "fatal", { error: String(e) }));
-    log("info", "Bridge.start", "pairing.consumer.started", { list: CH_PAIRING_REQUEST });
+  // { topic, address?, addresses }: same account forms as pairing requests; applied to every session chain they match
+  private controlUpdateAccounts = async (msg: any, op: "add" | "remove") => {
+    const topic: string | undefined = msg?.topic;
+    const info = topic ? this.sessions.get(topic) : undefined;
+    const session: SessionTypes.Struct | undefined = topic ? this.wallet.getActiveSessions()?.[topic] : undefined;
+    if (!topic || !info || !session) throw new InvalidRequestError(`Unknown session: ${topic}`);
+    const change = parseAccountMap(msg?.address, msg?.addresses);
+    if (Object.keys(change).length === 0) throw new InvalidRequestError("address or addresses required");
+    for (const [key, list] of Object.entries(change)) {
+      const ns = key.split(":")[0];
+      if (!session.namespaces[ns]) throw new InvalidRequestError(`Namespace ${ns} is not part of the session`);
+      const bad = list.filter((a) => !CHAIN_HANDLERS[ns]?.isValidAddress(a));
+      if (bad.length > 0) throw new InvalidRequestError(`Invalid ${ns} address: ${bad.join(", ")}`);
+    }
 
-    // Wrap async handlers to prevent unhandled rejections from crashing the process
-    const wrap = <T>(label: string, fn: (arg: T) => Promise<void>) => async (arg: T) => {
-      try {
-        await fn.call(this, arg);
-      } catch (e) {
-        log("error", label, "handler_exception", { error: String(e) });
-      }
-    };
+    const current = info.accounts ?? accountsByChain(Object.values(session.namespaces).flatMap((ns) => ns.accounts));
+    const next: Record<string, string[]> = {};
+    const changed: string[] = [];
+    for (const [chain, list] of Object.entries(current)) {
+      const delta = accountsForChain(change, chain);
+      const updated = op === "add"
+        ? [...list, ...delta.filter((a) => !list.some((b) => sameAccount(a, b)))]
+        : list.filter((a) => !delta.some((b) => sameAccount(a, b)));
+      if (updated.length === 0) throw new InvalidRequestError(`Cannot remove the last account of ${chain}`);
+      if (updated.length !== list.length) changed.push(chain);
+      next[chain] = updated;
+    }
+    if (changed.length === 0) {
+      log("info", "controlUpdateAccounts", "unchanged", { topic, op });
+      return { client_id: topic, accounts: next, changed };
+    }
 
-    this.wallet.on("session_proposal", wrap("session_proposal", this.onSessionProposal));
-    this.wallet.on("session_request", wrap("session_request", this.onSessionRequest));
-    this.wallet.on("session_delete", wrap("session_delete", this.onSessionDelete));
-    log("info", "Bridge.start", "wallet.handlers.bound");
+    const namespaces: SessionTypes.Namespaces = {};
+    for (const [name, ns] of Object.entries(session.namespaces)) {
+      const handler = CHAIN_HANDLERS[name];
+      const chains = Object.keys(next).filter((c) => c.startsWith(`${name}:`));
+      namespaces[name] = {
+        ...ns,
+        accounts: chains.flatMap((c) => next[c].map((a) => handler ? handler.formatAccount(c, a) : `${c}:${a}`)),
+      };
+    }
+    // Not awaiting peer acknowledgement: it would block the shared consumer loop
+    await this.wallet.updateSession({ topic, namespaces });
+    const addresses = primaryAddresses(next);
+    await this.saveSession(topic, { ...info, address: primaryAddress(addresses) ?? info.address, addresses, accounts: next });
 
-    await this.publishPairingEvent({ status: "ready", message: "WalletConnect bridge is ready" });
-    log("info", "Bridge.start", "exit");
-  }
+    // accountsChanged only goes to namespaces whose approved events include it
+    const emitted: string[] = [];
+    for (const chain of changed) {
+      if (!namespaces[chain.split(":")[0]]?.events?.includes("accountsChanged")) continue;
+      await this.wallet.emitSessionEvent({ topic, event: { name: "accountsChanged", data: next[chain] }, chainId: chain });
+      emitted.push(chain);
+    }
+    log("info", "controlUpdateAccounts", "updated", { topic, op, changed, emitted });
+    return { client_id: topic, accounts: next, changed, accounts_changed_emitted: emitted };
+  };
 
-  private publishPairingEvent = async (evt: any) => {
-    log("debug", "publishPairingEvent", "enter", { evt });
-    const envelope = {
-      data: JSON.stringify(evt),
-      headers: {
-        correlation_id: uuidv4(),
-        content_type: "application/json",
-        content_encoding: "utf-8",
-      },
-    };
-    const len = await this.redisPub.rPush(CH_PAIRING_EVENTS, JSON.stringify(envelope));
-    log("info", "publishPairingEvent", "queued_rpush", { list: CH_PAIRING_EVENTS, length: len });
-    log("debug", "publishPairingEvent", "exit");
+  // { request_id } or { client_id } (every in-flight request of that session), optional { reason }
+  private controlCancelSignRequest = (msg: any) => {
+    if (!msg?.request_id && !msg?.client_id) throw new InvalidRequestError("request_id or client_id required");
+    const cancelled = this.cancelInflight(
+      (requestId, r) => requestId === msg.request_id || r.client_id === msg.client_id,
+      msg?.reason || "cancelled"
+    );
+    return { cancelled };
   };
 
-  private parseFSMessageV1 = (buf: Buffer | string): { body: string; headers?: Record<string, string> } => {
-    const b = Buffer.isBuffer(buf) ? buf : Buffer.from(buf as string);
-    try {
-      // Look for "BIN\r\n\x1a\n" marker (7 bytes) anywhere near the start.
-      const marker = Buffer.from([0x42, 0x49, 0x4e, 0x0d, 0x0a, 0x1a, 0x0a]);
-      const j = b.indexOf(marker, 0);
-      const headHex = b.subarray(0, Math.min(24, b.length)).toString("hex");
-      if (j >= 0 && b.length >= j + 17) {
-        const msgStart = Math.max(0, j - 1); // expected position of 0x89 before "BIN"
-        // Version immediately follows marker (BE u16)
-        const ver = b.readUInt16BE(j + 7);
-        const headersStart = b.readUInt32BE(j + 9);
-        const dataStart = b.readUInt32BE(j + 13);
-        const absDataStart = msgStart + dataStart;
-        log("debug", "parseFSMessageV1", "binary.detected", { j, msgStart, ver, headersStart, dataStart, absDataStart, len: b.length, headHex });
-        if (ver === 1 && absDataStart > 0 && absDataStart <= b.length) {
-          const body = b.subarray(absDataStart).toString("utf8");
-          return { body };
-        }
-      } else {
-        log("debug", "parseFSMessageV1", "binary.header_mismatch", { headHex, len: b.length });
-      }
-    } catch (e) {
-      log("warn", "parseFSMessageV1", "binary_parse_failed", { error: String(e) });
+  private cancelInflight = (
+    match: (requestId: string, r: { client_id: string; wc_req_id: number; method: string }) => boolean,
+    reason: string,
+    error = { code: 5000, message: "User rejected." }
+  ): string[] => {
+    const cancelled: string[] = [];
+    for (const [requestId, r] of this.inflight) {
+      if (!match(requestId, r)) continue;
+      r.controller.abort({ reason, error });
+      cancelled.push(requestId);
     }
-    // JSON envelope fallback: { data: string, headers: {...} }
+    log("info", "cancelInflight", "cancelled", { cancelled, reason });
+    return cancelled;
+  };
+
+  // Wallet-initiated disconnect: WalletKit does not fire session_delete for our own disconnects
+  private endSession = async (topic: string, message: string) => {
+    log("info", "endSession", "enter", { topic, message });
+    const info = this.sessions.get(topic);
+    this.cancelInflight((_, r) => r.client_id === topic, "session ended");
     try {
-      const s = b.toString("utf8");
-      const env = JSON.parse(s);
-      if (env && typeof env.data === "string") {
-        return { body: env.data, headers: env.headers };
-      }
+      await this.wallet.disconnectSession({ topic, reason: { code: 6000, message } });
     } catch (e) {
-      log("debug", "parseFSMessageV1", "json_fallback_failed", { error: String(e) });
+      log("warn", "endSession", "disconnect_failed", { topic, error: String(e) });
     }
-    // Raw fallback
-    const body = b.toString("utf8");
-    return { body };
+    await this.deleteSession(topic);
+    await this.publishPairingEvent({
+      status: "ended",
+      client_id: topic,
+      address: info?.address,
+      user_info: info?.user_info,
+      message,
+    });
   };
 
-  private async consumePairingRequests() {
-    log("info", "consumePairingRequests", "enter", { list: CH_PAIRING_REQUEST });
-    while (true) {
-      try {
-        const reply: any = await (this.redisPair as any).sendCommand([
-          "BLPOP",
-          CH_PAIRING_REQUEST,
-          "0",
-        ], { returnBuffers: true } as any);
-        if (!reply) continue;
-        const keyBuf: Buffer = reply[0];
-        const raw: Buffer = reply[1];
-        log("debug", "consumePairingRequests", "blpop", { key: keyBuf.toString(), size: raw.length });
-        const { body } = this.parseFSMessageV1(raw);
-        log("debug", "consumePairingRequests", "decoded", { body });
-        await this.onPairingRequest(body);
-      } catch (e) {
-        log("error", "consumePairingRequests", "loop_error", { error: String(e) });
-        await new Promise((r) => setTimeout(r, 1000));
-      }
+  // Ask the broker (via RedisRPC on wc-proposal-review-queue) whether this proposal may be approved
+  private reviewProposal = async (
+    proposal: SignClientTypes.EventArguments["session_proposal"],
+    ctx: {
+      correlation_id?: string;
+      address: string;
+      addresses: Record<string, string>;
+      user_info?: Record<string, unknown>;
+      namespaces: SessionTypes.Namespaces;
     }
-  }
+  ): Promise<{ approve: boolean; methods?: string[]; reason?: string }> => {
+    const { id, params } = proposal;
+    const meta = params.proposer?.metadata || ({} as any);
+    const nsList = Object.values(ctx.namespaces);
+    const offered = Array.from(new Set(nsList.flatMap((ns) => ns.methods)));
+    const reqPayload = {
+      request_id: uuidv4(),
+      type: "session_proposal",
+      proposal_id: id,
+      correlation_id: ctx.correlation_id,
+      pairing_topic: (params as any).pairingTopic,
+      address: ctx.address,
+      addresses: ctx.addresses,
+      user_info: ctx.user_info,
+      chains: nsList.flatMap((ns) => ns.chains || []),
+      methods: offered,
+      events: Array.from(new Set(nsList.flatMap((ns) => ns.events))),
+      namespaces: ctx.namespaces,
+      dapp_info: { name: meta.name, url: meta.url, description: meta.description, icons: meta.icons },
+      required_namespaces: params.requiredNamespaces,
+      optional_namespaces: (params as any).optionalNamespaces,
+      verify_context: (proposal as any).verifyContext,
+    };
+    log("info", "reviewProposal", "enter", { id, request_id: reqPayload.request_id });
+    log("debug", "reviewProposal", "rpc.call", { reqPayload });
 
-  private onPairingRequest = async (payload: string) => {
-    log("info", "onPairingRequest", "enter", { payload });
+    let reply: any;
     try {
-      const msg = JSON.parse(payload);
-      log("debug", "onPairingRequest", "parsed", { msg });
-      const wc_uri: string | undefined = msg?.wc_uri;
-      const address: string | undefined = msg?.address;
-      const user_info = msg?.user_info;
-      log("debug", "onPairingRequest", "extracted", { wc_uri, address, has_user_info: !!user_info });
-      if (!wc_uri || !address) return;
-
-      addressQueue.push({ address, user_info });
-      log("info", "onPairingRequest", "queued", { queueLength: addressQueue.length });
-      await this.core.pairing.pair({ uri: wc_uri });
-      log("info", "onPairingRequest", "paired", { wc_uri });
-
-      await this.publishPairingEvent({
-        status: "queued",
-        address,
-        user_info,
-        message: "Pairing request received",
-      });
-      log("info", "onPairingRequest", "exit.success");
+      reply = await this.transport.call(reqPayload, WC_PROPOSAL_REVIEW_TIMEOUT_MS, CH_PROPOSAL_REVIEW);
     } catch (e) {
-      log("error", "onPairingRequest", "exception", { error: String(e) });
-      await this.publishPairingEvent({ status: "failed", error: String(e) });
+      // The timeout policy covers a silent reviewer only; a failure to ask is never an approval
+      if (!(e instanceof RpcTimeoutError)) {
+        log("error", "reviewProposal", "call_failed", { id, error: String(e) });
+        return { approve: false, reason: "Proposal review failed" };
+      }
+      log("warn", "reviewProposal", "no_decision", { id, error: String(e), policy: WC_PROPOSAL_REVIEW_ON_TIMEOUT });
+      return WC_PROPOSAL_REVIEW_ON_TIMEOUT === "approve"
+        ? { approve: true }
+        : { approve: false, reason: "Proposal review timed out" };
+    }
+    log("debug", "reviewProposal", "rpc.reply", { reply });
+
+    if (reply?.error) {
+      return { approve: false, reason: String(reply.error) };
+    }
+    const result = reply?.result || {};
+    if (result.approve !== true) {
+      return { approve: false, reason: result.reason ? String(result.reason) : undefined };
     }
+    // Broker may only narrow the method list, never add methods the dApp did not get offered
+    let methods: string[] | undefined;
+    if (Array.isArray(result.methods)) {
+      methods = offered.filter((m) => result.methods.includes(m));
+    }
+    log("info", "reviewProposal", "exit.approve", { id, methods });
+    return { approve: true, methods };
   };
 
   private onSessionProposal = async (proposal: SignClientTypes.EventArguments["session_proposal"]) => {
@@ -338,92 +3128,246 @@ class Bridge {
       log("debug", "onSessionProposal", "pairingTopic", { pairingTopic });
     log("debug", "onSessionProposal", "params", { required, optional, meta });
 
-    // Prefer 'stellar' namespace from required, fallback to optional
-      const stellarNs = (required.stellar ?? optional.stellar) as any;
-      const chains: string[] = Array.from(new Set((stellarNs?.chains || []).map((c: string) => c)));
-      log("debug", "onSessionProposal", "chains", { chains });
+      const pending = pairingTopic ? this.takePending(pairingTopic) : undefined;
+      let address = pending?.address;
+      let addresses = pending?.addresses;
+      let accounts = pending?.accounts;
+      let user_info = pending?.user_info;
+      const correlation_id = pending?.correlation_id;
+      log("debug", "onSessionProposal", "pending.lookup", { pairingTopic, address, has_user_info: !!user_info, correlation_id });
+
+    // Fallback: reuse binding from same pairing topic (session re-connect without new pairing request)
+      let networks = pending?.networks;
+      if (!address && pairingTopic && this.pairingBindings.has(pairingTopic)) {
+        const bind = this.pairingBindings.get(pairingTopic)!;
+        address = bind.address;
+        addresses = bind.addresses;
+        accounts = bind.accounts;
+        user_info = bind.user_info;
+        networks = bind.networks;
+        log("info", "onSessionProposal", "reuse.pairingBinding", { pairingTopic, address, has_user_info: !!user_info, networks });
+      }
 
-      if (!chains.some((c) => c === "stellar:pubnet" || c === "pubnet")) {
-        log("warn", "onSessionProposal", "reject.missing_pubnet", { id, chains });
-        await this.wallet.rejectSession({ id, reason: { code: 4000, message: "Required chain pubnet missing" } });
+      const verify = summarizeVerify((proposal as any).verifyContext);
+      const originError = checkDappOrigin(verify, meta.url);
+      log("debug", "onSessionProposal", "verify", { verify, originError });
+      if (originError) {
+        log("warn", "onSessionProposal", "reject.origin", { id, pairingTopic, verify, reason: originError });
+        await this.wallet.rejectSession({ id, reason: { code: 4000, message: originError } });
+        await this.publishPairingEvent({
+          status: "rejected",
+          correlation_id,
+          pairing_topic: pairingTopic,
+          address,
+          user_info,
+          dapp_info: { name: meta.name, url: meta.url },
+          verify,
+          reason: originError,
+        });
+        metrics.inc("wc_proposals_total", { outcome: "rejected", reason: "origin" });
         log("info", "onSessionProposal", "exit.reject");
         return;
       }
 
-      const next = addressQueue.shift();
-      let address = next?.address as string | undefined;
-      let user_info = next?.user_info as Record<string, unknown> | undefined;
-      log("debug", "onSessionProposal", "dequeue", { address, has_user_info: !!user_info, queueLength: addressQueue.length });
-
-    // Fallback: reuse binding from same pairing topic (session re-connect without new pairing request)
-    if (!address && pairingTopic && this.pairingBindings.has(pairingTopic)) {
-      const bind = this.pairingBindings.get(pairingTopic)!;
-      address = bind.address;
-      user_info = bind.user_info;
-      log("info", "onSessionProposal", "reuse.pairingBinding", { pairingTopic, address, has_user_info: !!user_info });
-    }
-
       if (!address) {
-        log("warn", "onSessionProposal", "reject.no_address", { id });
+        log("warn", "onSessionProposal", "reject.no_address", { id, pairingTopic });
         await this.wallet.rejectSession({ id, reason: { code: 4001, message: "No address bound for proposal" } });
+        await this.publishPairingEvent({
+          status: "failed",
+          pairing_topic: pairingTopic,
+          dapp_info: { name: meta.name, url: meta.url },
+          error: "No address bound for proposal",
+        });
+        metrics.inc("wc_proposals_total", { outcome: "rejected", reason: "no_address" });
         log("info", "onSessionProposal", "exit.reject");
         return;
       }
+      // Bindings created before multi-namespace support only carry the Stellar address
+      const bound: Record<string, string> = addresses ?? { stellar: address };
+      // Single-address bindings (older records) expose that address on every chain of its namespace
+      const accountMap: AccountMap = accounts ?? Object.fromEntries(Object.entries(bound).map(([ns, a]) => [ns, [a]]));
 
-      const accounts = chains
-        .filter((c) => c === "stellar:pubnet" || c === "pubnet")
-        .map((c) => (c.includes(":") ? `${c}:${address}` : `stellar:${c}:${address}`));
+      const built = this.buildNamespaces(required, optional, accountMap, networks);
+      log("debug", "onSessionProposal", "ns.build", { namespaces: built.namespaces, chains: built.chains, unsupported: built.unsupported });
+
+      if (built.chains.length === 0 || built.unsupported.length > 0) {
+        const reason = built.unsupported.length > 0
+          ? `Unsupported chains: ${built.unsupported.join(", ")}`
+          : "No supported chain requested";
+        log("warn", "onSessionProposal", "reject.unsupported_chains", { id, unsupported: built.unsupported, bound: Object.keys(bound) });
+        await this.wallet.rejectSession({ id, reason: { code: 4000, message: reason } });
+        await this.publishPairingEvent({
+          status: "failed",
+          correlation_id,
+          pairing_topic: pairingTopic,
+          address,
+          user_info,
+          dapp_info: { name: meta.name, url: meta.url },
+          error: reason,
+        });
+        metrics.inc("wc_proposals_total", { outcome: "rejected", reason: "unsupported_chains" });
+        log("info", "onSessionProposal", "exit.reject");
+        return;
+      }
 
-      const methods: string[] =
-        (stellarNs?.methods && Array.isArray(stellarNs.methods) && stellarNs.methods.length > 0)
-          ? stellarNs.methods
-          : ["stellar_signXDR", "stellar_signAndSubmitXDR"];
-      const events: string[] = Array.isArray(stellarNs?.events) ? stellarNs.events : [];
-      log("debug", "onSessionProposal", "ns.build", { accounts, methods, events });
+      const namespaces = built.namespaces;
+      const chains = built.chains;
+      // Only namespaces actually approved end up in the session; the primary is the first account offered
+      const sessionAccounts = accountsByChain(Object.values(namespaces).flatMap((ns) => ns.accounts));
+      const sessionAddresses = primaryAddresses(sessionAccounts);
 
-      const namespaces: SessionTypes.Namespaces = {
-        stellar: {
-          accounts,
-          methods,
-          events,
-        },
-      };
+      if (WC_PROPOSAL_REVIEW) {
+        const decision = await this.reviewProposal(proposal, {
+          correlation_id,
+          address,
+          addresses: sessionAddresses,
+          user_info,
+          namespaces,
+        });
+        if (!decision.approve) {
+          log("warn", "onSessionProposal", "reject.review", { id, reason: decision.reason });
+          await this.wallet.rejectSession({ id, reason: { code: 5000, message: decision.reason || "User rejected." } });
+          await this.publishPairingEvent({
+            status: "rejected",
+            correlation_id,
+            pairing_topic: pairingTopic,
+            address,
+            user_info,
+            dapp_info: { name: meta.name, url: meta.url },
+            reason: decision.reason,
+          });
+          metrics.inc("wc_proposals_total", { outcome: "rejected", reason: "review" });
+          log("info", "onSessionProposal", "exit.reject");
+          return;
+        }
+        if (decision.methods) {
+          for (const ns of Object.values(namespaces)) {
+            ns.methods = ns.methods.filter((m) => decision.methods!.includes(m));
+          }
+          log("debug", "onSessionProposal", "review.methods", { methods: decision.methods });
+        }
+      }
 
       const { topic } = await this.wallet.approveSession({ id, namespaces });
       log("info", "onSessionProposal", "approved", { topic });
-      this.sessions.set(topic, { address, user_info, dapp: { name: meta.name, url: meta.url } });
-      log("debug", "onSessionProposal", "session.store", { topic, address, dapp: { name: meta.name, url: meta.url } });
+      await this.saveSession(topic, {
+        address: primaryAddress(sessionAddresses) ?? address,
+        addresses: sessionAddresses,
+        accounts: sessionAccounts,
+        user_info,
+        dapp: { name: meta.name, url: meta.url },
+        chains,
+        verify,
+      });
+      log("debug", "onSessionProposal", "session.store", { topic, address, addresses: sessionAddresses, chains, dapp: { name: meta.name, url: meta.url } });
 
     // Bind address to pairing topic for future proposals over same pairing
       if (pairingTopic) {
-        this.pairingBindings.set(pairingTopic, { address, user_info });
+        await this.saveBinding(pairingTopic, { address, addresses: bound, accounts: accountMap, user_info, networks });
         log("debug", "onSessionProposal", "pairing.bind", { pairingTopic, address, has_user_info: !!user_info });
       }
 
       await this.publishPairingEvent({
         status: "approved",
+        correlation_id,
+        pairing_topic: pairingTopic,
         client_id: topic,
-        address,
+        address: primaryAddress(sessionAddresses) ?? address,
+        addresses: sessionAddresses,
+        accounts: sessionAccounts,
+        chains,
         dapp_info: { name: meta.name, url: meta.url },
+        verify,
         user_info,
         message: "Connected to dApp",
       });
+      await this.audit("session_approved", {
+        client_id: topic,
+        correlation_id,
+        pairing_topic: pairingTopic,
+        address: primaryAddress(sessionAddresses) ?? address,
+        accounts: sessionAccounts,
+        chains,
+        methods: Array.from(new Set(Object.values(namespaces).flatMap((ns) => ns.methods))),
+        dapp_info: { name: meta.name, url: meta.url },
+        verify,
+      });
+      metrics.inc("wc_proposals_total", { outcome: "approved", reason: "" });
       log("info", "onSessionProposal", "exit.success");
     } catch (e) {
       log("error", "onSessionProposal", "exception", { error: String(e) });
+      metrics.inc("wc_proposals_total", { outcome: "rejected", reason: "error" });
       try {
         await this.publishPairingEvent({ status: "failed", error: String(e) });
       } catch {}
     }
   };
 
+  // Build approved namespaces from the proposal: one entry per namespace that has a handler and a bound address.
+  // Required chains that cannot be served are reported in `unsupported`.
+  private buildNamespaces = (
+    required: Record<string, any>,
+    optional: Record<string, any>,
+    accounts: AccountMap,
+    networks?: string[]
+  ): { namespaces: SessionTypes.Namespaces; chains: string[]; unsupported: string[] } => {
+    // Namespace keys may be "stellar" (chains listed inside) or a single chain such as "eip155:1"
+    const collect = (src: Record<string, any>) => {
+      const out: Record<string, { chains: string[]; methods: string[]; events: string[] }> = {};
+      for (const [key, ns] of Object.entries(src || {})) {
+        const name = key.split(":")[0];
+        const entry = (out[name] ??= { chains: [], methods: [], events: [] });
+        entry.chains.push(...(key.includes(":") ? [key] : ns?.chains || []));
+        entry.methods.push(...(ns?.methods || []));
+        entry.events.push(...(ns?.events || []));
+      }
+      return out;
+    };
+    const req = collect(required);
+    const opt = collect(optional);
+
+    const namespaces: SessionTypes.Namespaces = {};
+    const chains: string[] = [];
+    const unsupported: string[] = [];
+    for (const name of new Set([...Object.keys(req), ...Object.keys(opt)])) {
+      const handler = CHAIN_HANDLERS[name];
+      const requiredChains = (req[name]?.chains || []).map((c) => handler ? handler.normalizeChain(c) : c);
+      const optionalChains = (opt[name]?.chains || []).map((c) => handler ? handler.normalizeChain(c) : c);
+      if (!handler) {
+        unsupported.push(...requiredChains);
+        continue;
+      }
+      const restrict = networks?.filter((c) => c.startsWith(`${name}:`)) || [];
+      // A chain is only served when at least one account is bound for it
+      const allowed = handler.allowedChains()
+        .filter((c) => restrict.length === 0 || restrict.includes(c))
+        .filter((c) => accountsForChain(accounts, c).length > 0);
+      const accepted = Array.from(new Set([...requiredChains, ...optionalChains])).filter((c) => allowed.includes(c));
+      unsupported.push(...requiredChains.filter((c) => !allowed.includes(c)));
+      if (accepted.length === 0) continue;
+
+      // Methods/events asked for in required and optional namespaces are all advertised (e.g. signMessage often is optional)
+      const methods = Array.from(new Set([...(req[name]?.methods || []), ...(opt[name]?.methods || [])]));
+      const events = Array.from(new Set([...(req[name]?.events || []), ...(opt[name]?.events || [])]));
+      namespaces[name] = {
+        chains: accepted,
+        accounts: accepted.flatMap((c) => accountsForChain(accounts, c).map((a) => handler.formatAccount(c, a))),
+        methods: methods.length > 0 ? methods : handler.defaultMethods,
+        events: events.length > 0 ? events : handler.defaultEvents,
+      };
+      chains.push(...accepted);
+    }
+    return { namespaces, chains, unsupported };
+  };
+
   private onSessionDelete = async (args: SignClientTypes.EventArguments["session_delete"]) => {
     log("info", "onSessionDelete", "enter", { topic: args.topic });
     const { topic } = args;
     const info = this.sessions.get(topic);
     const address = info?.address;
     const user_info = info?.user_info;
-    this.sessions.delete(topic);
+    this.cancelInflight((_, r) => r.client_id === topic, "session ended");
+    await this.deleteSession(topic);
     log("debug", "onSessionDelete", "session.deleted", { topic });
     await this.publishPairingEvent({
       status: "ended",
@@ -435,22 +3379,196 @@ class Bridge {
     log("info", "onSessionDelete", "exit");
   };
 
+  // Sign client dropped an expired session: clean up like session_delete, but report it as expired
+  private onSessionExpire = async (args: { topic: string }) => {
+    log("info", "onSessionExpire", "enter", { topic: args.topic });
+    await this.expireSession(args.topic, "session_expired", "Session expired");
+    log("info", "onSessionExpire", "exit");
+  };
+
+  private expireSession = async (topic: string, reason: string, message: string) => {
+    const info = this.sessions.get(topic);
+    this.cancelInflight((_, r) => r.client_id === topic, reason);
+    this.pingFailures.delete(topic);
+    this.lastPing.delete(topic);
+    if (!info) {
+      log("debug", "expireSession", "unknown_session", { topic, reason });
+      return;
+    }
+    await this.deleteSession(topic);
+    await this.publishPairingEvent({
+      status: "expired",
+      client_id: topic,
+      address: info.address,
+      user_info: info.user_info,
+      reason,
+      message,
+    });
+  };
+
+  // pairing_expire / pairing_delete: drop the pending request and the cached binding for that pairing
+  private onPairingGone = async (pairingTopic: string, reason: string) => {
+    log("info", "onPairingGone", "enter", { pairingTopic, reason });
+    const pending = this.takePending(pairingTopic);
+    const bind = pending ?? this.pairingBindings.get(pairingTopic);
+    if (!bind) {
+      log("debug", "onPairingGone", "exit.unbound", { pairingTopic });
+      return;
+    }
+    await this.deleteBinding(pairingTopic);
+    await this.publishPairingEvent({
+      status: "expired",
+      correlation_id: pending?.correlation_id,
+      pairing_topic: pairingTopic,
+      address: bind.address,
+      user_info: bind.user_info,
+      reason,
+      message: reason === "pairing_deleted" ? "Pairing deleted by dApp" : "Pairing expired",
+    });
+    log("info", "onPairingGone", "exit");
+  };
+
+  // Periodic sweep: ping sessions due for it, end unresponsive ones, drop pairing bindings past their TTL
+  private keepAlive = async () => {
+    if (this.keepAliveRunning || this.stopping) return;
+    this.keepAliveRunning = true;
+    try {
+      log("debug", "keepAlive", "enter", { sessions: this.sessions.size, bindings: this.pairingBindings.size });
+      if (WC_PING_INTERVAL_MS > 0) {
+        const due = Array.from(this.sessions.keys()).filter((t) => Date.now() - (this.lastPing.get(t) ?? 0) >= WC_PING_INTERVAL_MS);
+        await Promise.all(due.map((topic) => this.pingSession(topic)));
+      }
+      if (WC_PAIRING_BINDING_TTL_MS > 0) {
+        for (const [pairingTopic, bind] of Array.from(this.pairingBindings.entries())) {
+          // Bindings stored before the TTL existed count from now
+          if (!bind.bound_at) {
+            await this.saveBinding(pairingTopic, bind);
+            continue;
+          }
+          if (Date.now() - bind.bound_at < WC_PAIRING_BINDING_TTL_MS) continue;
+          log("info", "keepAlive", "binding.expired", { pairingTopic, bound_at: bind.bound_at });
+          await this.deleteBinding(pairingTopic);
+          await this.publishPairingEvent({
+            status: "expired",
+            pairing_topic: pairingTopic,
+            address: bind.address,
+            user_info: bind.user_info,
+            reason: "binding_ttl",
+            message: "Pairing binding expired",
+          });
+        }
+      }
+    } finally {
+      this.keepAliveRunning = false;
+    }
+  };
+
+  private pingSession = async (topic: string) => {
+    this.lastPing.set(topic, Date.now());
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        this.wallet.engine.signClient.ping({ topic }),
+        new Promise((_, reject) => { timer = setTimeout(() => reject(new Error("ping timeout")), WC_PING_TIMEOUT_MS); }),
+      ]);
+      this.pingFailures.delete(topic);
+      log("debug", "pingSession", "pong", { topic });
+    } catch (e) {
+      const failures = (this.pingFailures.get(topic) ?? 0) + 1;
+      this.pingFailures.set(topic, failures);
+      log("warn", "pingSession", "failed", { topic, failures, error: String(e) });
+      if (failures < WC_PING_MAX_FAILURES || !this.sessions.has(topic)) return;
+      try {
+        await this.wallet.disconnectSession({ topic, reason: { code: 6000, message: "Peer unresponsive" } });
+      } catch (err) {
+        log("warn", "pingSession", "disconnect_failed", { topic, error: String(err) });
+      }
+      await this.expireSession(topic, "peer_unresponsive", `No ping response ${failures} times in a row`);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  // Activity on a session close to expiry pushes it out by another full session lifetime
+  private extendIfExpiring = async (topic: string) => {
+    if (WC_SESSION_EXTEND_BEFORE_MS <= 0) return;
+    const expiry = this.wallet.getActiveSessions()?.[topic]?.expiry;
+    if (!expiry || expiry * 1000 - Date.now() > WC_SESSION_EXTEND_BEFORE_MS) return;
+    try {
+      // Not awaiting peer acknowledgement, as in controlExtendSession
+      await this.wallet.extendSession({ topic });
+      log("info", "extendIfExpiring", "extended", { topic, previous_expiry: expiry, expiry: this.wallet.getActiveSessions()?.[topic]?.expiry });
+    } catch (e) {
+      log("warn", "extendIfExpiring", "failed", { topic, error: String(e) });
+    }
+  };
+
+  // Fixed-window counters in Redis so limits hold across replicas; returns the exceeded scope
+  private rateLimited = async (topic: string, address: string): Promise<string | undefined> => {
+    const window = Math.floor(Date.now() / WC_RATE_LIMIT_WINDOW_MS);
+    const checks: [string, string, number][] = [
+      ["session", topic, WC_RATE_LIMIT_SESSION],
+      ["address", address, WC_RATE_LIMIT_ADDRESS],
+    ];
+    for (const [scope, id, limit] of checks) {
+      if (limit <= 0) continue;
+      const key = `${WC_STORAGE_PREFIX}:ratelimit:${scope}:${id}:${window}`;
+      try {
+        const count = await this.redisPub.incr(key);
+        if (count === 1) await this.redisPub.pExpire(key, WC_RATE_LIMIT_WINDOW_MS);
+        if (count > limit) return scope;
+      } catch (e) {
+        // Fail open: an unreachable Redis must not block signing on its own
+        log("error", "rateLimited", "redis_error", { scope, error: String(e) });
+      }
+    }
+    return undefined;
+  };
+
   private onSessionRequest = async (event: SignClientTypes.EventArguments["session_request"]) => {
     log("info", "onSessionRequest", "enter", { topic: event.topic, id: event.id });
     const { id, topic, params } = event;
     const { request } = params;
     const info = this.sessions.get(topic);
-    const address = info?.address as string | undefined;
-    log("debug", "onSessionRequest", "context", { address, has_user_info: !!info?.user_info });
+    // Sessions approved before multi-network support have no chains recorded: treat them as pubnet
+    const sessionChains = info?.chains && info.chains.length > 0 ? info.chains : ["stellar:pubnet"];
+    const chain_id = params.chainId ? toChainId(params.chainId) : sessionChains[0];
+    const namespace = chain_id.split(":")[0];
+    const handler = CHAIN_HANDLERS[namespace];
+    let address = info?.addresses?.[namespace] ?? (namespace === "stellar" ? info?.address : undefined);
+    log("debug", "onSessionRequest", "context", { address, chain_id, has_user_info: !!info?.user_info });
+    // Method label bounded to known methods to keep metric cardinality in check
+    const methodLabel = handler?.supportedMethods.includes(request.method) ? request.method : "other";
+    const request_id = uuidv4();
+    // Every exit path reports its outcome here: metric + audit journal entry
+    const countSign = (outcome: string, detail: { error?: string; result_sha256?: string } = {}) => {
+      metrics.inc("wc_sign_requests_total", { method: methodLabel, outcome });
+      const span = activeSpan();
+      span?.setAttributes({ "wc.outcome": outcome, "wc.sign_request_id": request_id, "wc.address": address });
+      if (outcome !== "success") span?.setError(detail.error ?? outcome);
+      this.audit("sign_outcome", { request_id, client_id: topic, wc_req_id: id, method: request.method, address, chain_id, outcome, ...detail });
+    };
 
     try {
       const method = request.method;
       const p = request.params as any;
-      const xdr = p?.xdr ?? (Array.isArray(p) && p[0]?.xdr);
-      log("debug", "onSessionRequest", "extracted", { method, has_xdr: !!xdr });
-      log("debug", "onSessionRequest", "xdr.payload", { xdr });
-      if (!address || !xdr) {
-        log("warn", "onSessionRequest", "bad_params", { addressPresent: !!address, has_xdr: !!xdr });
+      log("debug", "onSessionRequest", "extracted", { method });
+      if (this.stopping) {
+        log("warn", "onSessionRequest", "stopping", { method });
+        await this.wallet.respondSessionRequest({
+          topic,
+          response: {
+            id,
+            jsonrpc: "2.0",
+            error: { code: -32000, message: "Wallet bridge is shutting down, retry later." },
+          },
+        });
+        countSign("stopping");
+        log("info", "onSessionRequest", "exit.stopping");
+        return;
+      }
+      if (!address) {
+        log("warn", "onSessionRequest", "bad_params", { addressPresent: !!address });
         await this.wallet.respondSessionRequest({
           topic,
           response: {
@@ -459,23 +3577,172 @@ class Bridge {
             error: { code: 4000, message: "Bad params" },
           },
         });
+        countSign("bad_params");
         log("info", "onSessionRequest", "exit.bad_params");
         return;
       }
 
+      log("debug", "onSessionRequest", "network", { chain_id, sessionChains, has_handler: !!handler });
+      if (!handler || !sessionChains.includes(chain_id)) {
+        log("warn", "onSessionRequest", "unsupported_chain", { chain_id, sessionChains });
+        await this.wallet.respondSessionRequest({
+          topic,
+          response: {
+            id,
+            jsonrpc: "2.0",
+            error: { code: 4000, message: `Unsupported chain ${chain_id}` },
+          },
+        });
+        countSign("unsupported_chain");
+        log("info", "onSessionRequest", "exit.unsupported_chain");
+        return;
+      }
+
+      // Multi-account sessions: sign with the account the params name, which must be one approved for this chain
+      const chainAccounts = info?.accounts?.[chain_id] ?? [address];
+      const requested = handler.requestAccount(method, p, { chain_id, dapp_url: info?.dapp?.url });
+      log("debug", "onSessionRequest", "account", { requested, chainAccounts });
+      if (requested) {
+        const match = chainAccounts.find((a) => sameAccount(a, requested));
+        if (!match) {
+          log("warn", "onSessionRequest", "unauthorized_account", { requested, chain_id });
+          await this.wallet.respondSessionRequest({
+            topic,
+            response: {
+              id,
+              jsonrpc: "2.0",
+              error: { code: 4100, message: `Account ${requested} is not part of this session` },
+            },
+          });
+          countSign("unauthorized_account", { error: `account ${requested} not in session` });
+          log("info", "onSessionRequest", "exit.unauthorized_account");
+          return;
+        }
+        address = match;
+      }
+
+      const limited = await this.rateLimited(topic, address);
+      if (limited) {
+        log("warn", "onSessionRequest", "rate_limited", { topic, address, scope: limited });
+        await this.wallet.respondSessionRequest({
+          topic,
+          response: {
+            id,
+            jsonrpc: "2.0",
+            error: { code: -32005, message: `Rate limit exceeded (${limited})` },
+          },
+        });
+        countSign("rate_limited");
+        log("info", "onSessionRequest", "exit.rate_limited");
+        return;
+      }
+
+
+      const extracted = handler.extractRequest(method, p, { chain_id, address, dapp_url: info?.dapp?.url });
+      if (!extracted.ok) {
+        log("warn", "onSessionRequest", "params.rejected", { method, code: extracted.code, message: extracted.message, dapp: info?.dapp });
+        await this.wallet.respondSessionRequest({
+          topic,
+          response: {
+            id,
+            jsonrpc: "2.0",
+            error: { code: extracted.code, message: extracted.message },
+          },
+        });
+        countSign("params_rejected", { error: extracted.message });
+        log("info", "onSessionRequest", "exit.params_rejected");
+        return;
+      }
+      log("debug", "onSessionRequest", "params.payload", { method, payload: extracted.payload });
+
+      // dApp-provided expiry (seconds) bounds how long waiting for the broker makes sense
+      const expiry = (request as any).expiryTimestamp as number | undefined;
+      const timeoutMs = expiry
+        ? Math.max(1_000, Math.min(expiry * 1000 - Date.now(), WC_SIGN_TIMEOUT_MAX_MS))
+        : WC_SIGN_TIMEOUT_MS;
       const reqPayload = {
-        request_id: uuidv4(),
+        request_id,
         wc_req_id: id,
         client_id: topic,
         method,
-        xdr,
+        namespace,
+        ...extracted.payload,
         address,
+        chain_id,
+        expires_at: new Date(Date.now() + timeoutMs).toISOString(),
+        instance_id: this.instanceId,
         user_info: info?.user_info,
         dapp_info: info?.dapp,
+        verify: info?.verify,
       };
-      log("debug", "onSessionRequest", "rpc.call", { reqPayload });
+      const signEvent = { request_id, client_id: topic, wc_req_id: id, method, address, user_info: info?.user_info };
+      const x = extracted.payload as any;
+      const signed = x.xdr ?? x.entry_xdr ?? x.message ?? (x.typed_data ?? x.transaction ? JSON.stringify(x.typed_data ?? x.transaction) : undefined);
+      await this.audit("sign_request", {
+        request_id,
+        client_id: topic,
+        wc_req_id: id,
+        method,
+        kind: x.kind,
+        address,
+        chain_id,
+        dapp_info: info?.dapp,
+        xdr_sha256: typeof signed === "string" ? sha256Hex(signed) : undefined,
+        tx_hash: x.tx_summary?.hash,
+        operations: x.tx_summary?.operations?.map((op: any) => op.type),
+      });
+      log("debug", "onSessionRequest", "rpc.call", { reqPayload, timeoutMs });
 
-      const reply = await this.rpc.call(reqPayload, 300_000);
+      const controller = new AbortController();
+      this.inflight.set(request_id, { client_id: topic, wc_req_id: id, method, controller });
+      await this.setRequestOwner(request_id, timeoutMs + 60_000);
+      let reply: any;
+      try {
+        await this.publishPairingEvent({
+          status: "sign_pending",
+          ...signEvent,
+          dapp_info: info?.dapp,
+          expires_at: reqPayload.expires_at,
+        });
+        const cancelled = new Promise<{ cancelled: { reason: string; error: { code: number; message: string } } }>((resolve) => {
+          controller.signal.addEventListener("abort", () => resolve({ cancelled: controller.signal.reason }));
+        });
+        const call = this.transport.call(reqPayload, timeoutMs, CH_SIGN_REQUEST, controller.signal).then((r) => ({ reply: r }));
+        // After a cancellation the call rejects later on its own; nobody awaits it anymore
+        call.catch(() => {});
+        const outcome = await Promise.race([call, cancelled]);
+        if ("cancelled" in outcome) {
+          const { reason, error } = outcome.cancelled;
+          log("info", "onSessionRequest", "cancelled", { request_id, reason });
+          try {
+            await this.wallet.respondSessionRequest({
+              topic,
+              response: {
+                id,
+                jsonrpc: "2.0",
+                error,
+              },
+            });
+          } catch (e) {
+            // Session may already be gone when the cancellation came from its deletion
+            log("warn", "onSessionRequest", "cancel.respond_failed", { request_id, error: String(e) });
+          }
+          await this.publishPairingEvent({ status: "sign_rejected", ...signEvent, reason });
+          countSign("cancelled", { error: reason });
+          log("info", "onSessionRequest", "exit.cancelled");
+          return;
+        }
+        reply = outcome.reply;
+      } catch (e) {
+        if (e instanceof RpcTimeoutError) {
+          await this.publishPairingEvent({ status: "sign_timeout", ...signEvent, timeout_ms: timeoutMs });
+        }
+        throw e;
+      } finally {
+        this.inflight.delete(request_id);
+        controller.abort({ reason: "done", error: { code: 5000, message: "done" } });
+        await this.setRequestOwner(request_id);
+      }
       log("debug", "onSessionRequest", "rpc.reply", { reply });
       if (reply?.error) {
         log("warn", "onSessionRequest", "rpc.error", { error: reply.error });
@@ -487,11 +3754,13 @@ class Bridge {
             error: { code: 4001, message: String(reply.error) },
           },
         });
+        await this.publishPairingEvent({ status: "sign_rejected", ...signEvent, reason: String(reply.error) });
+        countSign("broker_error", { error: String(reply.error) });
         log("info", "onSessionRequest", "exit.rpc_error");
         return;
       }
 
-      const result = reply?.result || {};
+      const result = handler.shapeResult(method, reply?.result);
       log("debug", "onSessionRequest", "respond.result", { result });
       await this.wallet.respondSessionRequest({
         topic,
@@ -501,9 +3770,13 @@ class Bridge {
           result,
         },
       });
+      await this.publishPairingEvent({ status: "sign_completed", ...signEvent });
+      countSign("success", { result_sha256: sha256Hex(JSON.stringify(result ?? null)) });
+      await this.extendIfExpiring(topic);
       log("info", "onSessionRequest", "exit.success");
     } catch (e) {
       log("error", "onSessionRequest", "exception", { error: String(e) });
+      countSign(e instanceof RpcTimeoutError ? "timeout" : "error", { error: String(e) });
       await this.wallet.respondSessionRequest({
         topic,
         response: {
@@ -517,7 +3790,13 @@ class Bridge {
   };
 }
 
-(async () => {
+export { Bridge, RedisTransport, HttpTransport, InProcessTransport, RpcTimeoutError, encodeFSMessageV1, parseFSMessageV1, BUFFER_REPLIES, eip155Handler, pendingClaimIdle };
+export type { BrokerTransport, InboundSink };
+
+// Run only as the entry script: embedding code and tests import the module and build their own Bridge
+const isEntry = !!process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url);
+
+if (isEntry) (async () => {
   const b = new Bridge();
   log("info", "main", "starting");
   // Global safety nets to avoid process crash
@@ -528,12 +3807,27 @@ class Bridge {
     try { log("error", "process", "unhandledRejection", { reason: String(reason) }); } catch {}
   });
 
+  for (const signal of ["SIGTERM", "SIGINT"] as const) {
+    process.once(signal, () => {
+      log("info", "process", "signal", { signal });
+      b.stop(signal)
+        .catch((e) => log("error", "process", "stop_failed", { error: String(e) }))
+        .finally(() => process.exit(0));
+    });
+  }
+
   await b.start();
   // eslint-disable-next-line no-console
   console.log("FastStream-less Node bridge started. Channels:", {
     CH_PAIRING_REQUEST,
     CH_PAIRING_EVENTS,
     CH_SIGN_REQUEST,
+    CH_CONTROL,
+    CH_PROPOSAL_REVIEW,
+    namespaces: Object.keys(CHAIN_HANDLERS),
+    transport: WC_TRANSPORT,
+    queue_mode: WC_QUEUE_MODE,
+    multi_instance: WC_MULTI_INSTANCE,
   });
   log("info", "main", "started");
 })();